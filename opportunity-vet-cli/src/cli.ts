@@ -3,7 +3,19 @@
 import { Command } from "commander";
 import { fileURLToPath } from "node:url";
 import path from "node:path";
+import fs from "node:fs";
 import dotenv from "dotenv";
+import {
+  setConfigOverrides,
+  setConfigFileLayers,
+  parseProviderName,
+  parseSkepticPanel,
+  loadConfig,
+  type RunDefaults,
+} from "./config.js";
+import { loadConfigFiles } from "./config-file.js";
+import type { BudgetLimits } from "./pipeline/budget.js";
+import { MAX_REFEREE_SAMPLES } from "./pipeline/self-consistency.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 dotenv.config({ path: path.resolve(__dirname, "../.env") });
@@ -13,7 +25,17 @@ const program = new Command();
 program
   .name("vet")
   .description("CLI tool for vetting business opportunities using AI-powered research")
-  .version("1.0.0");
+  .version("1.0.0")
+  .option("--profile <name>", "Config file profile to use (overrides VET_PROFILE and defaultProfile)")
+  .configureHelp({ showGlobalOptions: true })
+  .hook("preAction", (thisCommand) => {
+    try {
+      setConfigFileLayers(loadConfigFiles(thisCommand.opts().profile));
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
 
 program
   .command("run")
@@ -22,41 +44,113 @@ program
   .option("--niche <string>", "Target niche or industry")
   .option("--customer <string>", "Target customer persona")
   .option("--constraints <string>", "Additional constraints or context")
-  .option("--depth <number>", "Max critique iterations (1 or 2)", "2")
+  .option("--depth <number>", "Max critique iterations (1-5; default 2); stops sooner once research converges")
   .option("--save <boolean>", "Save results to files and DB", "true")
   .option("--verbose", "Show intermediate step output", false)
-  .action(async (options) => {
+  .option("--provider <name>", "LLM provider: openai or local (overrides LLM_PROVIDER)")
+  .option("--record", "Record every model call to a cassette file in the output dir", false)
+  .option("--replay <cassette>", "Replay model responses from a recorded cassette (no network)")
+  .option("--max-cost <usd>", "Spend ceiling in USD; later stages are skipped to stay under it")
+  .option("--max-tokens <number>", "Token ceiling (input + output); later stages are skipped to stay under it")
+  .option("--no-cache", "Always run fresh Scout searches instead of reusing cached ones")
+  .option("--prompts <dir>", "Directory of prompt template overrides for this run")
+  .option("--verify-quotes", "Fetch each evidence page and check its quote; only verified evidence counts toward evidence strength")
+  .option("--skeptics <personas>", "Skeptic panel, e.g. investor,buyer,incumbent,channel-partner (default: red-team)")
+  .option("--min-new-evidence <n>", "Stop iterating when a Scout pass adds fewer new evidence items (default 1, 0 = off)")
+  .option("--min-new-domains <n>", "Stop iterating when a Scout pass adds fewer new source domains (default 0 = off)")
+  .option("--min-rubric-change <n>", "Stop iterating when the Analyst's rubric moves fewer points in total (default 1, 0 = off)")
+  .option("--referee-samples <n>", "Score with the median of this many Referee samples and flag a split decision (1-9, default 1)")
+  .option("--timeout <seconds>", "Stop after this many seconds and write a partial UNCLEAR report")
+  .option("--call-timeout <seconds>", "Abort and retry any model call that takes longer (overrides CALL_TIMEOUT_SECONDS)")
+  .option("--progress <mode>", "Progress output: spinner, plain or ndjson (default: spinner on a terminal, plain otherwise)")
+  .option("--json", "Print the Decision Packet as JSON on stdout (other output goes to stderr)", false)
+  .option("--fail-on <decisions>", "Exit with a decision's code when it is one of these, e.g. NO_GO,UNCLEAR (NO_GO=2, UNCLEAR=3, GO=4)")
+  .action(async (options, command: Command) => {
+    applyProviderOption(options.provider);
+    applyPromptsOption(options.prompts);
+    applyCallTimeoutOption(options.callTimeout);
+    await applySkepticsOption(options.skeptics);
+    await applyProgressOption(options.progress, options.json);
+    const failOn = await parseFailOnOption(options.failOn);
     const { runPipeline } = await import("./pipeline/run.js");
     await runPipeline({
       idea: options.idea,
       niche: options.niche,
       customer: options.customer,
       constraints: options.constraints,
-      depth: parseInt(options.depth, 10),
       save: options.save !== "false",
       verbose: options.verbose,
-    });
+      record: options.record,
+      replay: options.replay,
+      ...resolveRunOptions(options, command, "depth", 2),
+      runTimeoutMs: parseSecondsOption(options.timeout, "--timeout"),
+    }, { json: options.json, failOn });
   });
 
 program
   .command("history")
   .description("View past vetting runs")
   .option("--limit <number>", "Number of runs to show", "20")
+  .option("--costs", "Show total spend per stage and model across all runs", false)
+  .option("--json", "Print the rows as a JSON array", false)
   .action(async (options) => {
-    const { showHistory } = await import("./db/index.js");
+    const { showHistory, showCostTotals } = await import("./db/index.js");
+    if (options.costs) {
+      const totals = showCostTotals();
+      if (options.json) {
+        console.log(JSON.stringify(totals, null, 2));
+        return;
+      }
+      if (totals.length === 0) {
+        console.log("No cost data recorded yet.");
+        return;
+      }
+      console.log(
+        "\n" +
+          ["Stage", "Model", "Calls", "Input", "Cached", "Output", "Searches", "Cost"]
+            .map((h, i) => h.padEnd(i === 0 ? 18 : 14))
+            .join("") +
+          "\n" +
+          "-".repeat(116)
+      );
+      let grandTotal = 0;
+      for (const t of totals) {
+        grandTotal += t.cost;
+        console.log(
+          [
+            t.stage,
+            t.model.slice(0, 13),
+            String(t.calls),
+            String(t.inputTokens),
+            String(t.cachedInputTokens),
+            String(t.outputTokens),
+            String(t.webSearchCalls),
+            `$${t.cost.toFixed(4)}`,
+          ]
+            .map((v, i) => v.padEnd(i === 0 ? 18 : 14))
+            .join("")
+        );
+      }
+      console.log(`\nTotal spend: $${grandTotal.toFixed(4)}\n`);
+      return;
+    }
     const limit = parseInt(options.limit, 10);
     const runs = showHistory(limit);
+    if (options.json) {
+      console.log(JSON.stringify(runs, null, 2));
+      return;
+    }
     if (runs.length === 0) {
       console.log("No runs found.");
       return;
     }
     console.log(
       "\n" +
-        ["Run ID", "Date", "Idea", "Decision", "Score"]
+        ["Run ID", "Date", "Idea", "Decision", "Score", "Cost"]
           .map((h) => h.padEnd(20))
           .join("") +
         "\n" +
-        "-".repeat(100)
+        "-".repeat(120)
     );
     for (const run of runs) {
       console.log(
@@ -66,6 +160,7 @@ program
           run.idea.slice(0, 18),
           run.decision,
           String(run.totalScore),
+          run.estimatedCost != null ? `$${run.estimatedCost.toFixed(4)}` : "—",
         ]
           .map((v) => v.padEnd(20))
           .join("")
@@ -80,25 +175,102 @@ program
   .argument("<pain>", "The pain point to brainstorm solutions for")
   .option("--niche <string>", "Target niche or industry")
   .option("--customer <string>", "Target customer persona")
-  .option("--depth <number>", "Max critique iterations (1 or 2)", "1")
+  .option("--depth <number>", "Max critique iterations per idea (1-5; default 1); stops sooner once research converges")
   .option("--save <boolean>", "Save results to files and DB", "true")
   .option("--verbose", "Show intermediate step output", false)
-  .action(async (pain, options) => {
+  .option("--provider <name>", "LLM provider: openai or local (overrides LLM_PROVIDER)")
+  .option("--record", "Record every model call to a cassette file in the output dir", false)
+  .option("--replay <cassette>", "Replay model responses from a recorded cassette (no network)")
+  .option("--max-cost <usd>", "Spend ceiling in USD; later stages are skipped to stay under it")
+  .option("--max-tokens <number>", "Token ceiling (input + output); later stages are skipped to stay under it")
+  .option("--no-cache", "Always run fresh Scout searches instead of reusing cached ones")
+  .option("--prompts <dir>", "Directory of prompt template overrides for this run")
+  .option("--verify-quotes", "Fetch each evidence page and check its quote; only verified evidence counts toward evidence strength")
+  .option("--skeptics <personas>", "Skeptic panel, e.g. investor,buyer,incumbent,channel-partner (default: red-team)")
+  .option("--min-new-evidence <n>", "Stop iterating when a Scout pass adds fewer new evidence items (default 1, 0 = off)")
+  .option("--min-new-domains <n>", "Stop iterating when a Scout pass adds fewer new source domains (default 0 = off)")
+  .option("--min-rubric-change <n>", "Stop iterating when the Analyst's rubric moves fewer points in total (default 1, 0 = off)")
+  .option("--referee-samples <n>", "Score with the median of this many Referee samples and flag a split decision (1-9, default 1)")
+  .option("--timeout <seconds>", "Stop after this many seconds and write a partial UNCLEAR report")
+  .option("--call-timeout <seconds>", "Abort and retry any model call that takes longer (overrides CALL_TIMEOUT_SECONDS)")
+  .option("--progress <mode>", "Progress output: spinner, plain or ndjson (default: spinner on a terminal, plain otherwise)")
+  .option("--json", "Print the ideas, every idea's Decision Packet and the pivots as JSON on stdout", false)
+  .action(async (pain, options, command: Command) => {
+    applyProviderOption(options.provider);
+    applyPromptsOption(options.prompts);
+    applyCallTimeoutOption(options.callTimeout);
+    await applySkepticsOption(options.skeptics);
+    await applyProgressOption(options.progress, options.json);
     const { runBrainstorm } = await import("./pipeline/brainstorm.js");
     await runBrainstorm({
       painPoint: pain,
       niche: options.niche,
       customer: options.customer,
-      depth: parseInt(options.depth, 10),
       save: options.save !== "false",
       verbose: options.verbose,
-    });
+      record: options.record,
+      replay: options.replay,
+      ...resolveRunOptions(options, command, "brainstormDepth", 1),
+      runTimeoutMs: parseSecondsOption(options.timeout, "--timeout"),
+    }, { json: options.json });
+  });
+
+program
+  .command("resume")
+  .description("Continue a failed run or brainstorm group from its last completed stage")
+  .argument("[runId]", "Run or brainstorm group id (lists incomplete runs when omitted)")
+  .option("--timeout <seconds>", "Stop after this many seconds and write a partial UNCLEAR report (replaces the original run's)")
+  .option("--call-timeout <seconds>", "Abort and retry any model call that takes longer (overrides CALL_TIMEOUT_SECONDS)")
+  .option("--progress <mode>", "Progress output: spinner, plain or ndjson (default: spinner on a terminal, plain otherwise)")
+  .option("--json", "Print the result as JSON on stdout, like run --json / brainstorm --json", false)
+  .option("--fail-on <decisions>", "For runs: exit with a decision's code when it is one of these (see run --fail-on)")
+  .action(async (runId: string | undefined, options) => {
+    const { getCheckpointRun, listIncompleteCheckpointRuns } = await import("./db/index.js");
+    if (!runId) {
+      const runs = listIncompleteCheckpointRuns(20);
+      if (runs.length === 0) {
+        console.log("No incomplete runs.");
+        return;
+      }
+      console.log("\n" + ["ID", "Started", "Kind", "Idea / pain point"].map((h) => h.padEnd(20)).join("") + "\n" + "-".repeat(100));
+      for (const run of runs) {
+        console.log([run.id, run.createdAt.slice(0, 16), run.kind, run.label.slice(0, 40)].map((v) => v.padEnd(20)).join(""));
+      }
+      console.log();
+      return;
+    }
+
+    const run = getCheckpointRun(runId);
+    if (!run) {
+      console.error(`No checkpointed run "${runId}" found.`);
+      process.exit(1);
+    }
+    if (run.completedAt) {
+      const hint = run.kind === "run" ? ` See: vet show ${run.id}` : "";
+      console.log(`${run.kind === "run" ? "Run" : "Brainstorm group"} ${run.id} already completed at ${run.completedAt}.${hint}`);
+      return;
+    }
+    setConfigOverrides({ provider: parseProviderName(run.provider), runPromptsDir: run.promptsDir ?? undefined });
+    applyCallTimeoutOption(options.callTimeout);
+    await applyProgressOption(options.progress, options.json);
+    const failOn = await parseFailOnOption(options.failOn);
+    const stored = JSON.parse(run.options);
+    const runTimeoutMs = parseSecondsOption(options.timeout, "--timeout") ?? stored.runTimeoutMs;
+    (options.json ? console.error : console.log)(`Resuming ${run.kind} ${run.id}: ${run.label}`);
+    if (run.kind === "brainstorm") {
+      const { runBrainstorm } = await import("./pipeline/brainstorm.js");
+      await runBrainstorm({ ...stored, runTimeoutMs, groupId: run.id }, { json: options.json });
+    } else {
+      const { runPipeline } = await import("./pipeline/run.js");
+      await runPipeline({ ...stored, runTimeoutMs, runId: run.id }, { json: options.json, failOn });
+    }
   });
 
 program
   .command("show <runId>")
   .description("Show a specific vetting run")
-  .action(async (runId: string) => {
+  .option("--json", "Print the run's Decision Packet as JSON", false)
+  .action(async (runId: string, options) => {
     const { showRun } = await import("./db/index.js");
     const fs = await import("fs-extra");
     const run = showRun(runId);
@@ -106,6 +278,14 @@ program
       console.error(`Run "${runId}" not found.`);
       process.exit(1);
     }
+    if (options.json) {
+      const { packet, ...row } = run;
+      if (!packet) {
+        console.error(`Run ${run.runId} was saved before packets were stored; printing its summary row.`);
+      }
+      console.log(JSON.stringify(packet ? JSON.parse(packet) : row, null, 2));
+      return;
+    }
     if (run.mdPath && fs.existsSync(run.mdPath)) {
       const content = fs.readFileSync(run.mdPath, "utf-8");
       console.log(content);
@@ -115,6 +295,35 @@ program
     }
   });
 
+program
+  .command("debug <runId>")
+  .description("Show a run's stage-by-stage timeline: tokens, durations, retries and overrides")
+  .option("--json", "Print the raw debug log", false)
+  .action(async (runId: string, options) => {
+    const { getDebugLog } = await import("./db/index.js");
+    const { loadConfig } = await import("./config.js");
+    const { formatDebugTimeline } = await import("./pipeline/debug-log.js");
+    const logPath = path.join(loadConfig().outputDir, `${runId}.log.json`);
+    const log = getDebugLog(runId) ?? (fs.existsSync(logPath) ? JSON.parse(fs.readFileSync(logPath, "utf-8")) : undefined);
+    if (!log) {
+      console.error(`No debug log for run "${runId}". Debug logs are saved for runs with --save true.`);
+      process.exit(1);
+    }
+    console.log(options.json ? JSON.stringify(log, null, 2) : formatDebugTimeline(log));
+  });
+
+program
+  .command("config")
+  .description("Show the effective configuration, the config files it came from and the selected profile")
+  .action((_options, command: Command) => {
+    const loaded = loadConfigFiles(command.optsWithGlobals().profile);
+    const config = loadConfig();
+    console.log(`Config files: ${loaded.files.length > 0 ? loaded.files.join(", ") : "(none found)"}`);
+    console.log(`Profile: ${loaded.profileName ?? "(none)"}`);
+    const mask = (key: string) => (key.length > 8 ? `${key.slice(0, 3)}…${key.slice(-4)}` : key ? "***" : "");
+    console.log(JSON.stringify({ ...config, openaiApiKey: mask(config.openaiApiKey), localApiKey: mask(config.localApiKey) }, null, 2));
+  });
+
 program
   .command("convert")
   .description("Convert existing JSON and Markdown files to text format")
@@ -128,4 +337,157 @@ program
     await convertJsonAndMdToTxt(targetDir);
   });
 
+/**
+ * Depth, budget, cache and quote checking for run and brainstorm: a flag wins over the
+ * config file's setting (profile first), which wins over the built-in default.
+ */
+function resolveRunOptions(
+  options: {
+    depth?: string;
+    maxCost?: string;
+    maxTokens?: string;
+    cache: boolean;
+    verifyQuotes?: boolean;
+    minNewEvidence?: string;
+    minNewDomains?: string;
+    minRubricChange?: string;
+    refereeSamples?: string;
+  },
+  command: Command,
+  depthKey: "depth" | "brainstormDepth",
+  defaultDepth: number
+) {
+  let defaults: RunDefaults;
+  try {
+    defaults = loadConfig().runDefaults;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  return {
+    depth: options.depth !== undefined ? parseInt(options.depth, 10) : defaults[depthKey] ?? defaultDepth,
+    budget: parseBudgetOptions(options, defaults),
+    // --no-cache defaults to true, so only an explicit flag beats the config file
+    cache: command.getOptionValueSource("cache") === "cli" ? options.cache : defaults.cache ?? true,
+    verifyQuotes: options.verifyQuotes ?? defaults.verifyQuotes ?? false,
+    refereeSamples: parseSamplesOption(options.refereeSamples) ?? defaults.refereeSamples,
+    convergence: {
+      minNewEvidence: parseCountOption(options.minNewEvidence, "--min-new-evidence") ?? defaults.minNewEvidence,
+      minNewDomains: parseCountOption(options.minNewDomains, "--min-new-domains") ?? defaults.minNewDomains,
+      minRubricChange: parseCountOption(options.minRubricChange, "--min-rubric-change") ?? defaults.minRubricChange,
+    },
+  };
+}
+
+function parseCountOption(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    console.error(`Error: ${flag} must be a whole number (0 or more), got "${value}".`);
+    process.exit(1);
+  }
+  return count;
+}
+
+function parseSamplesOption(value: string | undefined): number | undefined {
+  const samples = parseCountOption(value, "--referee-samples");
+  if (samples !== undefined && (samples < 1 || samples > MAX_REFEREE_SAMPLES)) {
+    console.error(`Error: --referee-samples must be between 1 and ${MAX_REFEREE_SAMPLES}, got "${value}".`);
+    process.exit(1);
+  }
+  return samples;
+}
+
+function parseBudgetOptions(options: { maxCost?: string; maxTokens?: string }, defaults: RunDefaults = {}): BudgetLimits | undefined {
+  const budget: BudgetLimits = {};
+  if (defaults.maxCost !== undefined) budget.maxCost = defaults.maxCost;
+  if (defaults.maxTokens !== undefined) budget.maxTokens = defaults.maxTokens;
+  if (options.maxCost !== undefined) {
+    budget.maxCost = parseFloat(options.maxCost);
+    if (!(budget.maxCost > 0)) {
+      console.error(`Error: --max-cost must be a positive number, got "${options.maxCost}".`);
+      process.exit(1);
+    }
+  }
+  if (options.maxTokens !== undefined) {
+    budget.maxTokens = parseInt(options.maxTokens, 10);
+    if (!(budget.maxTokens > 0)) {
+      console.error(`Error: --max-tokens must be a positive integer, got "${options.maxTokens}".`);
+      process.exit(1);
+    }
+  }
+  return budget.maxCost === undefined && budget.maxTokens === undefined ? undefined : budget;
+}
+
+function applyProviderOption(value: string | undefined): void {
+  if (!value) return;
+  try {
+    setConfigOverrides({ provider: parseProviderName(value) });
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+function parseSecondsOption(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const seconds = parseFloat(value);
+  if (!(seconds > 0)) {
+    console.error(`Error: ${flag} must be a positive number of seconds, got "${value}".`);
+    process.exit(1);
+  }
+  return seconds * 1000;
+}
+
+function applyCallTimeoutOption(value: string | undefined): void {
+  const callTimeoutMs = parseSecondsOption(value, "--call-timeout");
+  if (callTimeoutMs !== undefined) setConfigOverrides({ callTimeoutMs });
+}
+
+async function applyProgressOption(value: string | undefined, json = false): Promise<void> {
+  const { parseProgressMode, defaultProgressMode, createProgressRenderer } = await import("./utils/progress-output.js");
+  const { setProgressHandler } = await import("./utils/progress.js");
+  try {
+    const mode = value ? parseProgressMode(value) : defaultProgressMode(process.stdout.isTTY);
+    setProgressHandler(createProgressRenderer(mode, json));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+async function parseFailOnOption(value: string | undefined) {
+  if (value === undefined) return undefined;
+  const { parseFailOn } = await import("./utils/exit-codes.js");
+  try {
+    return parseFailOn(value);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+async function applySkepticsOption(value: string | undefined): Promise<void> {
+  if (value === undefined) return;
+  const { resolvePanel } = await import("./pipeline/skeptic-panel.js");
+  try {
+    const skepticPanel = parseSkepticPanel(value);
+    resolvePanel(skepticPanel, loadConfig().skepticPersonas);
+    setConfigOverrides({ skepticPanel });
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+function applyPromptsOption(dir: string | undefined): void {
+  if (!dir) return;
+  const resolved = path.resolve(dir);
+  if (!fs.existsSync(resolved)) {
+    console.error(`Error: --prompts directory not found: ${resolved}`);
+    process.exit(1);
+  }
+  setConfigOverrides({ runPromptsDir: resolved });
+}
+
 program.parse();
@@ -0,0 +1,245 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { STAGE_NAMES } from "./providers/types.js";
+import { ConfigError } from "./errors.js";
+import { MAX_DEPTH } from "./pipeline/convergence.js";
+import { MAX_REFEREE_SAMPLES } from "./pipeline/self-consistency.js";
+import type { ConfigLayer, StageSettingsMap } from "./config.js";
+
+export const CONFIG_FILE_NAME = "vet.config.json";
+
+const StageSettingsSchema = z
+  .object({
+    model: z.string().min(1).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
+  })
+  .strict();
+
+const ThresholdSchema = z.number().int().min(0).max(5);
+
+const SettingsShape = {
+  provider: z.enum(["openai", "local"]).optional(),
+  openaiModel: z.string().min(1).optional(),
+  localBaseUrl: z.string().url().optional(),
+  localModel: z.string().min(1).optional(),
+  localStructuredOutput: z.boolean().optional(),
+  stages: z.object(Object.fromEntries(STAGE_NAMES.map((stage) => [stage, StageSettingsSchema.optional()]))).strict().optional(),
+  outputDir: z.string().min(1).optional(),
+  dbPath: z.string().min(1).optional(),
+  promptsDir: z.string().min(1).optional(),
+  pricingFile: z.string().min(1).optional(),
+  searchCacheTtlHours: z.number().nonnegative().optional(),
+  contextTokenBudget: z.number().int().positive().optional(),
+  callTimeoutSeconds: z.number().positive().optional(),
+  retryMaxWaitSeconds: z.number().nonnegative().optional(),
+  depth: z.number().int().min(1).max(MAX_DEPTH).optional(),
+  brainstormDepth: z.number().int().min(1).max(MAX_DEPTH).optional(),
+  maxCost: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  verifyQuotes: z.boolean().optional(),
+  cache: z.boolean().optional(),
+  minNewEvidence: z.number().int().nonnegative().optional(),
+  minNewDomains: z.number().int().nonnegative().optional(),
+  minRubricChange: z.number().int().nonnegative().optional(),
+  refereeSamples: z.number().int().min(1).max(MAX_REFEREE_SAMPLES).optional(),
+  credibility: z.record(z.string().min(1), z.number().int().min(1).max(5)).optional(),
+  skepticPanel: z.array(z.string().min(1)).min(1).optional(),
+  skepticPersonas: z
+    .record(z.string().regex(/^[a-z0-9-]+$/, "persona ids use lowercase letters, digits and dashes"), z.object({ name: z.string().min(1), brief: z.string().min(1) }).strict())
+    .optional(),
+  rubric: z
+    .object({
+      killThresholds: z
+        .object({
+          evidenceStrength: ThresholdSchema.optional(),
+          distributionFeasibility: ThresholdSchema.optional(),
+          competition: ThresholdSchema.optional(),
+          buyerClarity: ThresholdSchema.optional(),
+        })
+        .strict()
+        .optional(),
+      minEvidence: z.number().int().nonnegative().optional(),
+      alreadySolvedPenalty: z.number().int().min(0).max(5).optional(),
+    })
+    .strict()
+    .optional(),
+};
+
+const SettingsSchema = z.object(SettingsShape).strict();
+
+export type ConfigFileSettings = z.infer<typeof SettingsSchema>;
+
+const ConfigFileSchema = z
+  .object({
+    ...SettingsShape,
+    $schema: z.string().optional(),
+    defaultProfile: z.string().min(1).optional(),
+    profiles: z.record(z.string().min(1), SettingsSchema).optional(),
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export interface LoadedConfigFiles {
+  settings: ConfigLayer;
+  profile: ConfigLayer;
+  /** Files read, lowest precedence first */
+  files: string[];
+  profileName?: string;
+}
+
+/**
+ * The user-level and project-level config file paths, lowest precedence first.
+ */
+export function configFilePaths(cwd: string = process.cwd(), env: NodeJS.ProcessEnv = process.env): string[] {
+  const configHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return [path.join(configHome, "vet", CONFIG_FILE_NAME), path.join(cwd, CONFIG_FILE_NAME)];
+}
+
+/**
+ * Validate a parsed config file. Errors name the file and every offending key.
+ */
+export function parseConfigFile(data: unknown, file: string): ConfigFile {
+  const result = ConfigFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => {
+      const key = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+      return `  ${key}: ${issue.message}`;
+    });
+    throw new ConfigError(`Invalid config file ${file}:\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Turn file settings into a config layer; relative paths resolve against `baseDir`,
+ * the directory of the file they came from.
+ */
+export function settingsToLayer(settings: ConfigFileSettings, baseDir: string): ConfigLayer {
+  const filePath = (value: string | undefined) => (value ? path.resolve(baseDir, value) : undefined);
+  return {
+    provider: settings.provider,
+    openaiModel: settings.openaiModel,
+    localBaseUrl: settings.localBaseUrl,
+    localModel: settings.localModel,
+    localStructuredOutput: settings.localStructuredOutput,
+    stageSettings: settings.stages as StageSettingsMap | undefined,
+    outputDir: filePath(settings.outputDir),
+    dbPath: filePath(settings.dbPath),
+    promptsDir: filePath(settings.promptsDir),
+    pricingFile: filePath(settings.pricingFile),
+    searchCacheTtlHours: settings.searchCacheTtlHours,
+    contextTokenBudget: settings.contextTokenBudget,
+    callTimeoutMs: settings.callTimeoutSeconds !== undefined ? settings.callTimeoutSeconds * 1000 : undefined,
+    retryMaxWaitMs: settings.retryMaxWaitSeconds !== undefined ? settings.retryMaxWaitSeconds * 1000 : undefined,
+    credibility: settings.credibility,
+    rubric: settings.rubric,
+    skepticPanel: settings.skepticPanel,
+    skepticPersonas: settings.skepticPersonas,
+    runDefaults: {
+      depth: settings.depth,
+      brainstormDepth: settings.brainstormDepth,
+      maxCost: settings.maxCost,
+      maxTokens: settings.maxTokens,
+      verifyQuotes: settings.verifyQuotes,
+      cache: settings.cache,
+      minNewEvidence: settings.minNewEvidence,
+      minNewDomains: settings.minNewDomains,
+      minRubricChange: settings.minRubricChange,
+      refereeSamples: settings.refereeSamples,
+    },
+  };
+}
+
+/**
+ * Combine parsed config files (lowest precedence first) into base settings and the
+ * selected profile. The profile is `profileName`, else the last file's `defaultProfile`;
+ * a profile defined in several files merges in file order.
+ */
+export function resolveConfigFiles(
+  files: Array<{ file: string; config: ConfigFile }>,
+  profileName?: string
+): LoadedConfigFiles {
+  const layers: ConfigLayer[] = [];
+  const profileLayers: ConfigLayer[] = [];
+  const available = new Set<string>();
+  let defaultProfile: string | undefined;
+
+  for (const { config } of files) {
+    if (config.defaultProfile) defaultProfile = config.defaultProfile;
+    for (const name of Object.keys(config.profiles ?? {})) available.add(name);
+  }
+  const selected = profileName ?? defaultProfile;
+  if (selected && !available.has(selected)) {
+    const names = available.size > 0 ? [...available].join(", ") : "none defined";
+    throw new ConfigError(`Unknown profile "${selected}". Available profiles: ${names}`);
+  }
+
+  for (const { file, config } of files) {
+    const baseDir = path.dirname(file);
+    const { profiles, defaultProfile: _default, $schema: _schema, ...settings } = config;
+    layers.push(settingsToLayer(settings, baseDir));
+    const profile = selected ? profiles?.[selected] : undefined;
+    if (profile) profileLayers.push(settingsToLayer(profile, baseDir));
+  }
+
+  return {
+    settings: mergeLayers(layers),
+    profile: mergeLayers(profileLayers),
+    files: files.map((f) => f.file),
+    profileName: selected,
+  };
+}
+
+/**
+ * Read the config files that exist. `profileName` (from `--profile`) beats `VET_PROFILE`,
+ * which beats the files' `defaultProfile`.
+ */
+export function loadConfigFiles(
+  profileName: string | undefined = process.env.VET_PROFILE || undefined,
+  paths: string[] = configFilePaths()
+): LoadedConfigFiles {
+  const files: Array<{ file: string; config: ConfigFile }> = [];
+  for (const file of paths) {
+    if (!fs.existsSync(file)) continue;
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (err) {
+      throw new ConfigError(`Could not read config file ${file}: ${(err as Error).message}`);
+    }
+    files.push({ file, config: parseConfigFile(data, file) });
+  }
+  return resolveConfigFiles(files, profileName);
+}
+
+// Later layers win; undefined values never replace set ones
+function mergeLayers(layers: ConfigLayer[]): ConfigLayer {
+  const merged: ConfigLayer = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer) as Array<[keyof ConfigLayer, unknown]>) {
+      if (value === undefined) continue;
+      const previous = merged[key];
+      (merged as Record<string, unknown>)[key] = isPlainObject(previous) && isPlainObject(value)
+        ? deepMerge(previous, value)
+        : value;
+    }
+  }
+  return merged;
+}
+
+function deepMerge(a: Record<string, unknown>, b: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    if (value === undefined) continue;
+    result[key] = isPlainObject(result[key]) && isPlainObject(value) ? deepMerge(result[key], value) : value;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,23 +1,282 @@
 import path from "node:path";
+import { STAGE_NAMES, type ReasoningEffort, type StageName } from "./providers/types.js";
+import { ConfigError } from "./errors.js";
+import { DEFAULT_RUBRIC_SETTINGS, type RubricSettings } from "./pipeline/scoring.js";
+import { DEFAULT_SKEPTIC_PANEL } from "./pipeline/skeptic-panel.js";
+
+export type ProviderName = "openai" | "local";
+
+const PROVIDER_NAMES: ProviderName[] = ["openai", "local"];
+
+const REASONING_EFFORTS: ReasoningEffort[] = ["low", "medium", "high"];
+
+/**
+ * Per-stage overrides of the provider's default model and sampling settings.
+ */
+export interface StageSettings {
+  model?: string;
+  temperature?: number;
+  reasoningEffort?: ReasoningEffort;
+}
+
+export type StageSettingsMap = Partial<Record<StageName, StageSettings>>;
+
+/**
+ * Defaults for run options the command line leaves unset (from vet.config.json).
+ */
+export interface RunDefaults {
+  depth?: number;
+  brainstormDepth?: number;
+  maxCost?: number;
+  maxTokens?: number;
+  verifyQuotes?: boolean;
+  cache?: boolean;
+  minNewEvidence?: number;
+  minNewDomains?: number;
+  minRubricChange?: number;
+  refereeSamples?: number;
+}
 
 export interface Config {
+  provider: ProviderName;
   openaiApiKey: string;
   openaiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+  localApiKey: string;
+  /** Whether the local endpoint honors `response_format: json_schema` */
+  localStructuredOutput: boolean;
   outputDir: string;
   dbPath: string;
+  /** JSON file of per-model prices merged over the built-in table */
+  pricingFile?: string;
+  /** How long cached Scout searches stay fresh */
+  searchCacheTtlHours: number;
+  stageSettings: StageSettingsMap;
+  /** Project-level prompt template overrides; templates missing here use the built-ins */
+  promptsDir: string;
+  /** Per-run prompt template overrides (`--prompts`), checked before `promptsDir` */
+  runPromptsDir?: string;
+  /** Estimated tokens of evidence and competitors each Analyst/Skeptic/Referee prompt may carry */
+  contextTokenBudget: number;
+  /** Per model call; a call that runs longer is aborted and retried */
+  callTimeoutMs: number;
+  /** Total time one model call may spend waiting between retries before giving up */
+  retryMaxWaitMs: number;
+  /** Domain credibility tiers (1-5) added to or replacing the built-in ones */
+  credibility: Record<string, number>;
+  rubric: RubricSettings;
+  runDefaults: RunDefaults;
+  /** Skeptic persona ids run against each Analyst result */
+  skepticPanel: string[];
+  /** Personas defined in vet.config.json, alongside the built-in ones */
+  skepticPersonas: Record<string, { name: string; brief: string }>;
+}
+
+/**
+ * One source of settings. Layers are merged in order; nested maps (stage settings,
+ * credibility, rubric thresholds, run defaults) merge key by key.
+ */
+export type ConfigLayer = Omit<Partial<Config>, "rubric"> & {
+  rubric?: { killThresholds?: Partial<RubricSettings["killThresholds"]>; minEvidence?: number; alreadySolvedPenalty?: number };
+};
+
+let _overrides: Partial<Config> = {};
+// Settings and selected profile from vet.config.json files; set by the CLI
+let _fileLayers: { settings: ConfigLayer; profile: ConfigLayer } = { settings: {}, profile: {} };
+
+/**
+ * Per-run overrides applied on top of the environment (e.g. from CLI flags).
+ * Call before the pipeline first loads its config.
+ */
+export function setConfigOverrides(overrides: Partial<Config>): void {
+  _overrides = { ..._overrides, ...overrides };
+}
+
+/**
+ * Replace all overrides at once (the library API passes its whole config this way).
+ * Returns the previous overrides so they can be restored.
+ */
+export function replaceConfigOverrides(overrides: Partial<Config>): Partial<Config> {
+  const previous = _overrides;
+  _overrides = { ...overrides };
+  return previous;
 }
 
+/**
+ * Use settings from vet.config.json: `settings` sit under the environment, the selected
+ * `profile` above it (only flags and overrides beat a profile).
+ */
+export function setConfigFileLayers(layers: { settings: ConfigLayer; profile: ConfigLayer }): void {
+  _fileLayers = layers;
+}
+
+/**
+ * A comma-separated list of Skeptic persona ids, e.g. "investor,buyer" (checked when the run starts).
+ */
+export function parseSkepticPanel(value: string): string[] {
+  return value
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+}
+
+export function parseProviderName(value: string): ProviderName {
+  if (!PROVIDER_NAMES.includes(value as ProviderName)) {
+    throw new ConfigError(`Unknown provider "${value}". Expected one of: ${PROVIDER_NAMES.join(", ")}`);
+  }
+  return value as ProviderName;
+}
+
+/**
+ * Parse the STAGE_MODELS / STAGE_TEMPERATURES / STAGE_REASONING_EFFORTS variables,
+ * each a comma-separated list of `stage=value` pairs (e.g. "referee=gpt-4.1,ideator=gpt-4o-mini").
+ */
+export function parseStageSettings(vars: {
+  models?: string;
+  temperatures?: string;
+  reasoningEfforts?: string;
+}): StageSettingsMap {
+  const settings: StageSettingsMap = {};
+  const set = (stage: StageName, patch: StageSettings) => {
+    settings[stage] = { ...settings[stage], ...patch };
+  };
+
+  for (const [stage, value] of parseStagePairs(vars.models, "STAGE_MODELS")) {
+    set(stage, { model: value });
+  }
+  for (const [stage, value] of parseStagePairs(vars.temperatures, "STAGE_TEMPERATURES")) {
+    const temperature = Number(value);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+      throw new ConfigError(`STAGE_TEMPERATURES: "${value}" for ${stage} is not a temperature between 0 and 2`);
+    }
+    set(stage, { temperature });
+  }
+  for (const [stage, value] of parseStagePairs(vars.reasoningEfforts, "STAGE_REASONING_EFFORTS")) {
+    if (!REASONING_EFFORTS.includes(value as ReasoningEffort)) {
+      throw new ConfigError(`STAGE_REASONING_EFFORTS: "${value}" for ${stage} must be one of: ${REASONING_EFFORTS.join(", ")}`);
+    }
+    set(stage, { reasoningEffort: value as ReasoningEffort });
+  }
+  return settings;
+}
+
+function parseStagePairs(value: string | undefined, variable: string): [StageName, string][] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const eq = pair.indexOf("=");
+      const stage = pair.slice(0, eq).trim();
+      const setting = pair.slice(eq + 1).trim();
+      if (eq < 0 || !setting) {
+        throw new ConfigError(`${variable}: expected stage=value, got "${pair}"`);
+      }
+      if (!STAGE_NAMES.includes(stage as StageName)) {
+        throw new ConfigError(`${variable}: unknown stage "${stage}". Expected one of: ${STAGE_NAMES.join(", ")}`);
+      }
+      return [stage as StageName, setting];
+    });
+}
+
+/**
+ * Effective config. Precedence, highest first: overrides (CLI flags, library config),
+ * the selected profile, environment variables, vet.config.json settings, built-in defaults.
+ */
 export function loadConfig(): Config {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    console.error("Error: OPENAI_API_KEY is not set. Copy .env.example to .env and add your key.");
-    process.exit(1);
+  return mergeConfig(defaultConfig(), _fileLayers.settings, configFromEnv(), _fileLayers.profile, _overrides);
+}
+
+export function mergeConfig(base: Config, ...layers: ConfigLayer[]): Config {
+  let config = base;
+  for (const layer of layers) {
+    config = {
+      ...config,
+      ...definedOnly(layer),
+      stageSettings: mergeStageSettings(config.stageSettings, layer.stageSettings ?? {}),
+      credibility: { ...config.credibility, ...layer.credibility },
+      rubric: {
+        killThresholds: { ...config.rubric.killThresholds, ...definedOnly(layer.rubric?.killThresholds) },
+        minEvidence: layer.rubric?.minEvidence ?? config.rubric.minEvidence,
+        alreadySolvedPenalty: layer.rubric?.alreadySolvedPenalty ?? config.rubric.alreadySolvedPenalty,
+      },
+      runDefaults: { ...config.runDefaults, ...definedOnly(layer.runDefaults) },
+      skepticPersonas: { ...config.skepticPersonas, ...layer.skepticPersonas },
+    };
   }
+  return config;
+}
+
+function mergeStageSettings(base: StageSettingsMap, layer: StageSettingsMap): StageSettingsMap {
+  const merged: StageSettingsMap = { ...base };
+  for (const stage of Object.keys(layer) as StageName[]) {
+    merged[stage] = { ...base[stage], ...definedOnly(layer[stage]) };
+  }
+  return merged;
+}
+
+// Unset values in a layer never replace set ones below it
+function definedOnly<T extends object>(values: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(values ?? {}).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function defaultConfig(): Config {
+  return {
+    provider: "openai",
+    // Checked when the OpenAI provider is built, so replays and local models run without a key
+    openaiApiKey: "",
+    openaiModel: "gpt-4o",
+    localBaseUrl: "http://localhost:11434/v1",
+    localModel: "llama3.1",
+    localApiKey: "local",
+    localStructuredOutput: false,
+    outputDir: path.resolve("reports"),
+    dbPath: path.resolve(".data/vet.db"),
+    searchCacheTtlHours: 168,
+    stageSettings: {},
+    promptsDir: path.resolve("prompts"),
+    contextTokenBudget: 12000,
+    callTimeoutMs: 600_000,
+    retryMaxWaitMs: 120_000,
+    credibility: {},
+    rubric: DEFAULT_RUBRIC_SETTINGS,
+    runDefaults: {},
+    skepticPanel: DEFAULT_SKEPTIC_PANEL,
+    skepticPersonas: {},
+  };
+}
+
+/** Settings from environment variables that are set (empty counts as unset) */
+function configFromEnv(env: NodeJS.ProcessEnv = process.env): ConfigLayer {
+  const value = (name: string) => env[name] || undefined;
+  const number = (name: string) => (env[name] ? parseFloat(env[name]!) : undefined);
+  const filePath = (name: string) => (env[name] ? path.resolve(env[name]!) : undefined);
+  const seconds = number("CALL_TIMEOUT_SECONDS");
+  const retrySeconds = number("RETRY_MAX_WAIT_SECONDS");
 
   return {
-    openaiApiKey,
-    openaiModel: process.env.OPENAI_MODEL || "gpt-4o",
-    outputDir: path.resolve(process.env.OUTPUT_DIR || "reports"),
-    dbPath: path.resolve(process.env.DB_PATH || ".data/vet.db"),
+    provider: env.LLM_PROVIDER ? parseProviderName(env.LLM_PROVIDER) : undefined,
+    openaiApiKey: value("OPENAI_API_KEY"),
+    openaiModel: value("OPENAI_MODEL"),
+    localBaseUrl: value("LOCAL_BASE_URL"),
+    localModel: value("LOCAL_MODEL"),
+    localApiKey: value("LOCAL_API_KEY"),
+    localStructuredOutput: env.LOCAL_STRUCTURED_OUTPUT ? env.LOCAL_STRUCTURED_OUTPUT === "true" : undefined,
+    outputDir: filePath("OUTPUT_DIR"),
+    dbPath: filePath("DB_PATH"),
+    pricingFile: filePath("PRICING_FILE"),
+    searchCacheTtlHours: number("SEARCH_CACHE_TTL_HOURS"),
+    stageSettings: parseStageSettings({
+      models: env.STAGE_MODELS,
+      temperatures: env.STAGE_TEMPERATURES,
+      reasoningEfforts: env.STAGE_REASONING_EFFORTS,
+    }),
+    promptsDir: filePath("PROMPTS_DIR"),
+    contextTokenBudget: env.CONTEXT_TOKEN_BUDGET ? parseInt(env.CONTEXT_TOKEN_BUDGET, 10) : undefined,
+    callTimeoutMs: seconds !== undefined ? seconds * 1000 : undefined,
+    retryMaxWaitMs: retrySeconds !== undefined ? retrySeconds * 1000 : undefined,
+    skepticPanel: env.SKEPTIC_PANEL ? parseSkepticPanel(env.SKEPTIC_PANEL) : undefined,
   };
 }
@@ -3,28 +3,47 @@ import fs from "fs-extra";
 import path from "node:path";
 import { loadConfig } from "../config.js";
 import { migrate } from "./migrate.js";
-import type { DecisionPacket } from "../openai/schemas/packet.zod.js";
+import type { DecisionPacket, StageCost } from "../openai/schemas/packet.zod.js";
+import type { Citation, StageUsage } from "../providers/index.js";
 
 let _db: Database.Database | null = null;
+let _dbPath: string | null = null;
 
+/**
+ * The database at the configured path; reopened if the path changes (library callers
+ * may pass a different config per run).
+ */
 export function getDb(): Database.Database {
-  if (_db) return _db;
-
   const config = loadConfig();
+  if (_db && _dbPath === config.dbPath) return _db;
+  _db?.close();
+
   const dbDir = path.dirname(config.dbPath);
   fs.ensureDirSync(dbDir);
 
+  _dbPath = config.dbPath;
   _db = new Database(config.dbPath);
   _db.pragma("journal_mode = WAL");
   migrate(_db);
   return _db;
 }
 
+/**
+ * Store a finished run. A resumed run that was saved before replaces its earlier rows.
+ */
 export function insertRun(packet: DecisionPacket, jsonPath: string, mdPath: string, groupId?: string): void {
   const db = getDb();
+  for (const table of ["evidence", "competitors", "stage_costs", "runs"]) {
+    db.prepare(`DELETE FROM ${table} WHERE runId = ?`).run(packet.runId);
+  }
+  const costs = packet.meta.costBreakdown ?? [];
+  const sum = (key: "inputTokens" | "cachedInputTokens" | "outputTokens" | "webSearchCalls") =>
+    costs.reduce((total, c) => total + c[key], 0);
+
   db.prepare(`
-    INSERT INTO runs (runId, createdAt, idea, niche, decision, totalScore, jsonPath, mdPath, tokenUsage, estimatedCost, groupId)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO runs (runId, createdAt, idea, niche, decision, totalScore, jsonPath, mdPath, tokenUsage, estimatedCost, groupId,
+      inputTokens, cachedInputTokens, outputTokens, webSearchCalls, packet)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     packet.runId,
     packet.createdAt,
@@ -36,15 +55,32 @@ export function insertRun(packet: DecisionPacket, jsonPath: string, mdPath: stri
     mdPath,
     packet.meta.tokenUsage,
     packet.meta.estimatedCost,
-    groupId ?? null
+    groupId ?? null,
+    sum("inputTokens"),
+    sum("cachedInputTokens"),
+    sum("outputTokens"),
+    sum("webSearchCalls"),
+    JSON.stringify(packet)
   );
 
+  insertStageCosts(costs, packet.runId, groupId);
+
   const insertEvidence = db.prepare(`
-    INSERT INTO evidence (runId, url, quote, theme, sourceType, sentiment, credibility)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO evidence (runId, url, quote, theme, sourceType, sentiment, credibility, verified, matchScore)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   for (const e of packet.evidence) {
-    insertEvidence.run(packet.runId, e.url, e.quote, e.theme, e.sourceType, e.sentiment, e.credibility);
+    insertEvidence.run(
+      packet.runId,
+      e.url,
+      e.quote,
+      e.theme,
+      e.sourceType,
+      e.sentiment,
+      e.credibility,
+      e.verified === undefined ? null : Number(e.verified),
+      e.matchScore ?? null
+    );
   }
 
   const insertCompetitor = db.prepare(`
@@ -56,33 +92,95 @@ export function insertRun(packet: DecisionPacket, jsonPath: string, mdPath: stri
   }
 }
 
+/**
+ * Store a per-stage cost breakdown. Brainstorm-level stages (ideator, salvage)
+ * belong to a group rather than a single run, so runId may be omitted; a resumed
+ * group's earlier group-level rows are replaced.
+ */
+export function insertStageCosts(costs: StageCost[], runId: string | undefined, groupId: string | undefined): void {
+  const db = getDb();
+  if (runId === undefined && groupId !== undefined) {
+    db.prepare("DELETE FROM stage_costs WHERE runId IS NULL AND groupId = ?").run(groupId);
+  }
+  const insert = db.prepare(`
+    INSERT INTO stage_costs (runId, groupId, stage, model, calls, inputTokens, cachedInputTokens, outputTokens, webSearchCalls, cost)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const c of costs) {
+    insert.run(
+      runId ?? null,
+      groupId ?? null,
+      c.stage,
+      c.model,
+      c.calls,
+      c.inputTokens,
+      c.cachedInputTokens,
+      c.outputTokens,
+      c.webSearchCalls,
+      c.cost
+    );
+  }
+}
+
 export interface RunSummary {
   runId: string;
   createdAt: string;
   idea: string;
   decision: string;
   totalScore: number;
+  estimatedCost: number | null;
   groupId?: string;
 }
 
 export function showHistory(limit: number): RunSummary[] {
   const db = getDb();
   return db
-    .prepare("SELECT runId, createdAt, idea, decision, totalScore, groupId FROM runs ORDER BY createdAt DESC LIMIT ?")
+    .prepare("SELECT runId, createdAt, idea, decision, totalScore, estimatedCost, groupId FROM runs ORDER BY createdAt DESC LIMIT ?")
     .all(limit) as RunSummary[];
 }
 
-export interface RunRecord {
-  runId: string;
+export interface CostTotals {
+  stage: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  webSearchCalls: number;
+  cost: number;
+}
+
+/**
+ * Spend across every stored run and brainstorm group, per stage and model.
+ */
+export function showCostTotals(): CostTotals[] {
+  const db = getDb();
+  return db
+    .prepare(`
+      SELECT stage, model, SUM(calls) AS calls, SUM(inputTokens) AS inputTokens,
+        SUM(cachedInputTokens) AS cachedInputTokens, SUM(outputTokens) AS outputTokens,
+        SUM(webSearchCalls) AS webSearchCalls, SUM(cost) AS cost
+      FROM stage_costs
+      GROUP BY stage, model
+      ORDER BY cost DESC
+    `)
+    .all() as CostTotals[];
+}
+
+export interface RunRecord extends RunSummary {
   jsonPath: string | null;
   mdPath: string | null;
+  /** JSON of the full Decision Packet; null for runs saved before it was stored */
+  packet: string | null;
 }
 
 export function showRun(runId: string): RunRecord | undefined {
   const db = getDb();
   // Support prefix match for convenience
   const row = db
-    .prepare("SELECT runId, jsonPath, mdPath FROM runs WHERE runId = ? OR runId LIKE ?")
+    .prepare(
+      "SELECT runId, createdAt, idea, decision, totalScore, estimatedCost, groupId, jsonPath, mdPath, packet FROM runs WHERE runId = ? OR runId LIKE ?"
+    )
     .get(runId, `${runId}%`) as RunRecord | undefined;
   return row;
 }
@@ -90,6 +188,112 @@ export function showRun(runId: string): RunRecord | undefined {
 export function showGroup(groupId: string): RunSummary[] {
   const db = getDb();
   return db
-    .prepare("SELECT runId, createdAt, idea, decision, totalScore, groupId FROM runs WHERE groupId = ? ORDER BY createdAt ASC")
+    .prepare("SELECT runId, createdAt, idea, decision, totalScore, estimatedCost, groupId FROM runs WHERE groupId = ? ORDER BY createdAt ASC")
     .all(groupId) as RunSummary[];
 }
+
+export interface CachedSearch {
+  response: string;
+  citations: Citation[];
+  createdAt: string;
+}
+
+export function getCachedSearch(cacheKey: string): CachedSearch | undefined {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT response, citations, createdAt FROM search_cache WHERE cacheKey = ?")
+    .get(cacheKey) as { response: string; citations: string; createdAt: string } | undefined;
+  return row && { ...row, citations: JSON.parse(row.citations) as Citation[] };
+}
+
+export function putCachedSearch(
+  cacheKey: string,
+  model: string,
+  queries: string[],
+  response: string,
+  citations: Citation[]
+): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR REPLACE INTO search_cache (cacheKey, model, queries, response, citations, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(cacheKey, model, JSON.stringify(queries), response, JSON.stringify(citations), new Date().toISOString());
+}
+
+export interface CheckpointRun {
+  id: string;
+  kind: "run" | "brainstorm";
+  createdAt: string;
+  /** The idea or pain point, for listing */
+  label: string;
+  /** JSON of the options the run was started with */
+  options: string;
+  provider: string;
+  promptsDir: string | null;
+  completedAt: string | null;
+}
+
+export function insertCheckpointRun(run: Omit<CheckpointRun, "completedAt">): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR IGNORE INTO checkpoint_runs (id, kind, createdAt, label, options, provider, promptsDir)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(run.id, run.kind, run.createdAt, run.label, run.options, run.provider, run.promptsDir);
+}
+
+export function getCheckpointRun(id: string): CheckpointRun | undefined {
+  const db = getDb();
+  // Support prefix match for convenience
+  return db
+    .prepare("SELECT * FROM checkpoint_runs WHERE id = ? OR id LIKE ? ORDER BY createdAt DESC")
+    .get(id, `${id}%`) as CheckpointRun | undefined;
+}
+
+export function listIncompleteCheckpointRuns(limit: number): CheckpointRun[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT * FROM checkpoint_runs WHERE completedAt IS NULL ORDER BY createdAt DESC LIMIT ?")
+    .all(limit) as CheckpointRun[];
+}
+
+export function completeCheckpointRun(id: string): void {
+  const db = getDb();
+  db.prepare("UPDATE checkpoint_runs SET completedAt = ? WHERE id = ?").run(new Date().toISOString(), id);
+}
+
+export interface StoredCheckpoint {
+  output: unknown;
+  /** Usage the stage spent when it first ran */
+  usage: StageUsage[];
+}
+
+export function getCheckpoint(id: string, stage: string, iteration: number): StoredCheckpoint | undefined {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT output, usage FROM checkpoints WHERE id = ? AND stage = ? AND iteration = ?")
+    .get(id, stage, iteration) as { output: string; usage: string } | undefined;
+  return row && { output: JSON.parse(row.output), usage: JSON.parse(row.usage) as StageUsage[] };
+}
+
+export function putCheckpoint(id: string, stage: string, iteration: number, output: unknown, usage: StageUsage[]): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR REPLACE INTO checkpoints (id, stage, iteration, output, usage, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(id, stage, iteration, JSON.stringify(output), JSON.stringify(usage), new Date().toISOString());
+}
+
+export function insertDebugLog(runId: string, log: unknown): void {
+  const db = getDb();
+  db.prepare("INSERT OR REPLACE INTO debug_logs (runId, log, createdAt) VALUES (?, ?, ?)")
+    .run(runId, JSON.stringify(log), new Date().toISOString());
+}
+
+export function getDebugLog(runId: string): unknown | undefined {
+  const db = getDb();
+  // Support prefix match for convenience
+  const row = db
+    .prepare("SELECT log FROM debug_logs WHERE runId = ? OR runId LIKE ? ORDER BY createdAt DESC")
+    .get(runId, `${runId}%`) as { log: string } | undefined;
+  return row && JSON.parse(row.log);
+}
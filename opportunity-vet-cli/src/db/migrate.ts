@@ -1,6 +1,6 @@
 import Database from "better-sqlite3";
 
-const CURRENT_VERSION = 2;
+const CURRENT_VERSION = 9;
 
 const SCHEMA_V1 = `
 CREATE TABLE IF NOT EXISTS schema_version (
@@ -45,6 +45,84 @@ const MIGRATION_V2 = `
 ALTER TABLE runs ADD COLUMN groupId TEXT;
 `;
 
+const MIGRATION_V3 = `
+ALTER TABLE runs ADD COLUMN inputTokens INTEGER;
+ALTER TABLE runs ADD COLUMN cachedInputTokens INTEGER;
+ALTER TABLE runs ADD COLUMN outputTokens INTEGER;
+ALTER TABLE runs ADD COLUMN webSearchCalls INTEGER;
+
+CREATE TABLE IF NOT EXISTS stage_costs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  runId TEXT,
+  groupId TEXT,
+  stage TEXT NOT NULL,
+  model TEXT NOT NULL,
+  calls INTEGER NOT NULL,
+  inputTokens INTEGER NOT NULL,
+  cachedInputTokens INTEGER NOT NULL,
+  outputTokens INTEGER NOT NULL,
+  webSearchCalls INTEGER NOT NULL,
+  cost REAL NOT NULL
+);
+`;
+
+const MIGRATION_V4 = `
+CREATE TABLE IF NOT EXISTS search_cache (
+  cacheKey TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  queries TEXT NOT NULL,
+  response TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
+`;
+
+// Searches cached before citations were captured would mark all their evidence uncited
+const MIGRATION_V5 = `
+DELETE FROM search_cache;
+ALTER TABLE search_cache ADD COLUMN citations TEXT NOT NULL DEFAULT '[]';
+`;
+
+const MIGRATION_V6 = `
+ALTER TABLE evidence ADD COLUMN verified INTEGER;
+ALTER TABLE evidence ADD COLUMN matchScore REAL;
+`;
+
+const MIGRATION_V7 = `
+CREATE TABLE IF NOT EXISTS checkpoint_runs (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  label TEXT NOT NULL,
+  options TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  promptsDir TEXT,
+  completedAt TEXT
+);
+
+CREATE TABLE IF NOT EXISTS checkpoints (
+  id TEXT NOT NULL,
+  stage TEXT NOT NULL,
+  iteration INTEGER NOT NULL,
+  output TEXT NOT NULL,
+  usage TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  PRIMARY KEY (id, stage, iteration)
+);
+`;
+
+const MIGRATION_V8 = `
+CREATE TABLE IF NOT EXISTS debug_logs (
+  runId TEXT PRIMARY KEY,
+  log TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
+`;
+
+// The full Decision Packet, for `vet show --json`
+const MIGRATION_V9 = `
+ALTER TABLE runs ADD COLUMN packet TEXT;
+`;
+
 export function migrate(db: Database.Database): void {
   const currentVersion = getVersion(db);
 
@@ -61,6 +139,41 @@ export function migrate(db: Database.Database): void {
     db.exec(MIGRATION_V2);
     setVersion(db, 2);
   }
+
+  if (currentVersion < 3) {
+    db.exec(MIGRATION_V3);
+    setVersion(db, 3);
+  }
+
+  if (currentVersion < 4) {
+    db.exec(MIGRATION_V4);
+    setVersion(db, 4);
+  }
+
+  if (currentVersion < 5) {
+    db.exec(MIGRATION_V5);
+    setVersion(db, 5);
+  }
+
+  if (currentVersion < 6) {
+    db.exec(MIGRATION_V6);
+    setVersion(db, 6);
+  }
+
+  if (currentVersion < 7) {
+    db.exec(MIGRATION_V7);
+    setVersion(db, 7);
+  }
+
+  if (currentVersion < 8) {
+    db.exec(MIGRATION_V8);
+    setVersion(db, 8);
+  }
+
+  if (currentVersion < 9) {
+    db.exec(MIGRATION_V9);
+    setVersion(db, 9);
+  }
 }
 
 function getVersion(db: Database.Database): number {
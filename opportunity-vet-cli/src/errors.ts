@@ -0,0 +1,37 @@
+/**
+ * Missing or invalid configuration: an unset API key, an unknown provider, malformed stage settings.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * A run or brainstorm group that failed part-way. When `resumable`, its completed stages are
+ * checkpointed under `runId`: pass it back as `runId` (or `groupId`) to continue from there.
+ * The original error is the `cause`.
+ */
+export class RunFailedError extends Error {
+  constructor(
+    message: string,
+    public readonly runId: string,
+    public readonly resumable: boolean,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "RunFailedError";
+  }
+}
+
+/**
+ * Usage, logs and cancellation are tracked per process, so only one run or brainstorm
+ * may be in flight at a time.
+ */
+export class RunInProgressError extends Error {
+  constructor() {
+    super("Another run is already in progress in this process; wait for it to finish.");
+    this.name = "RunInProgressError";
+  }
+}
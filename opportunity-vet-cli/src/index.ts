@@ -0,0 +1,124 @@
+/**
+ * Library API: vet ideas from another Node program. Nothing here prints, exits the process
+ * or reads `.env`; config is passed in and progress arrives on an event emitter.
+ */
+import path from "node:path";
+import { replaceConfigOverrides, type Config } from "./config.js";
+import { RunInProgressError } from "./errors.js";
+import { executePipeline, type PipelineOptions, type RunResult } from "./pipeline/run.js";
+import { executeBrainstorm, type BrainstormOptions, type BrainstormResult } from "./pipeline/brainstorm.js";
+import { setProgressHandler, type VetEvents } from "./utils/progress.js";
+
+export { ConfigError, RunFailedError, RunInProgressError } from "./errors.js";
+export { CancelledError } from "./utils/cancel.js";
+export { ValidationFailedError } from "./openai/client.js";
+export { generateReport, generateBrainstormReport } from "./pipeline/report.js";
+export { formatDebugTimeline } from "./pipeline/debug-log.js";
+export type { Config, ProviderName, StageSettings, StageSettingsMap } from "./config.js";
+export type { RunResult } from "./pipeline/run.js";
+export type { BrainstormResult } from "./pipeline/brainstorm.js";
+export type { DebugLog, IterationLog, StepLog } from "./pipeline/debug-log.js";
+export type { BudgetLimits } from "./pipeline/budget.js";
+export type { PageFetcher } from "./pipeline/verify.js";
+export type { DecisionPacket } from "./openai/schemas/packet.zod.js";
+export type { Idea } from "./openai/schemas/ideator.zod.js";
+export type { SalvageResult } from "./openai/schemas/salvage.zod.js";
+export type { ProgressEvent, VetEventMap, VetEvents } from "./utils/progress.js";
+
+export interface VetIdeaOptions extends Omit<PipelineOptions, "depth" | "save" | "verbose" | "checkpoint" | "groupId"> {
+  /** Max critique iterations, 1-5 (default 2); the loop can stop sooner, see `convergence` */
+  depth?: number;
+  /** Write the report, debug log and run rows to the configured output dir and DB (default false) */
+  save?: boolean;
+  /**
+   * Checkpoint each stage in the DB so a failed run can be resumed with its `runId` (default
+   * false). The Scout search cache also lives in the DB; with `save`, `checkpoint` and `cache`
+   * all false the DB is never opened.
+   */
+  checkpoint?: boolean;
+  /** Also emit per-step detail as `info` events (default false) */
+  verbose?: boolean;
+  /** Receives a `progress` event for every step */
+  events?: VetEvents;
+}
+
+export interface BrainstormIdeasOptions extends Omit<BrainstormOptions, "depth" | "save" | "verbose" | "checkpoint"> {
+  /** Max critique iterations per idea, 1-5 (default 1) */
+  depth?: number;
+  save?: boolean;
+  /** Checkpoint the group so a failed one can be resumed with its `groupId` (default false) */
+  checkpoint?: boolean;
+  verbose?: boolean;
+  events?: VetEvents;
+}
+
+let _running = false;
+
+/**
+ * Vet one idea. Returns the Decision Packet and the run's debug log. Cancelling through
+ * `signal` or `runTimeoutMs` still resolves, with a partial packet (`packet.meta.partial`).
+ *
+ * `config` replaces the environment for this call; fields left out fall back to the
+ * environment and the CLI's defaults.
+ *
+ * @throws ConfigError when the provider can't be set up (e.g. no API key)
+ * @throws RunFailedError when a stage fails; with `checkpoint`, pass its `runId` back as `runId` to resume
+ * @throws RunInProgressError when another call is still running in this process
+ */
+export async function vetIdea(options: VetIdeaOptions, config: Partial<Config> = {}): Promise<RunResult> {
+  const { events, ...pipelineOptions } = options;
+  return withLibraryContext(config, events, () =>
+    executePipeline({ depth: 2, save: false, verbose: false, checkpoint: false, ...pipelineOptions })
+  );
+}
+
+/**
+ * Generate ideas from a pain point and vet each one, as `vet brainstorm` does. Returns every
+ * idea's result and the comparison report. Throws like `vetIdea`; with `checkpoint`, pass a
+ * failed group's `runId` back as `groupId` to resume it.
+ */
+export async function brainstorm(
+  options: BrainstormIdeasOptions,
+  config: Partial<Config> = {}
+): Promise<BrainstormResult> {
+  const { events, ...brainstormOptions } = options;
+  return withLibraryContext(config, events, () =>
+    executeBrainstorm({ depth: 1, save: false, verbose: false, checkpoint: false, ...brainstormOptions })
+  );
+}
+
+/**
+ * Run `fn` with `config` and `events` in place of the environment and the spinner,
+ * restoring both afterwards.
+ */
+async function withLibraryContext<T>(
+  config: Partial<Config>,
+  events: VetEvents | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (_running) throw new RunInProgressError();
+  _running = true;
+  const previousOverrides = replaceConfigOverrides(resolvePaths(config));
+  const previousHandler = setProgressHandler((event) => events?.emit("progress", event));
+  try {
+    return await fn();
+  } finally {
+    setProgressHandler(previousHandler);
+    replaceConfigOverrides(previousOverrides);
+    _running = false;
+  }
+}
+
+/**
+ * Relative paths resolve against the working directory, as they do from the environment;
+ * undefined fields are dropped so they fall back instead of overriding.
+ */
+function resolvePaths(config: Partial<Config>): Partial<Config> {
+  const resolved: Partial<Config> = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  );
+  for (const key of ["outputDir", "dbPath", "pricingFile", "promptsDir", "runPromptsDir"] as const) {
+    if (resolved[key]) resolved[key] = path.resolve(resolved[key]);
+  }
+  return resolved;
+}
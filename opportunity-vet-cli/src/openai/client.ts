@@ -1,11 +1,25 @@
-import OpenAI from "openai";
-import fs from "node:fs";
-import path from "node:path";
-import { fileURLToPath } from "node:url";
 import { loadConfig } from "../config.js";
-import { withRetry } from "../utils/retry.js";
+import {
+  createProvider,
+  type ChatUsage,
+  type Citation,
+  type LLMProvider,
+  type StageName,
+  type StageUsage,
+} from "../providers/index.js";
+import {
+  createCassette,
+  createRecordingProvider,
+  createReplayProvider,
+  type Cassette,
+} from "../providers/cassette.js";
+import { withRetry, type RetryEvent } from "../utils/retry.js";
+import { getCancelSignal } from "../utils/cancel.js";
 import { safeJsonParse } from "../utils/json-parse.js";
-import type { ScoutResult } from "./schemas/scout.zod.js";
+import { toResponseFormat, stripNulls, type ResponseFormat } from "./structured.js";
+import { renderPrompt, templateHash, type TemplateVars } from "./templates.js";
+import { packContext, type PackingReport } from "./packing.js";
+import type { EvidenceItem, ScoutResult } from "./schemas/scout.zod.js";
 import { ScoutResultSchema } from "./schemas/scout.zod.js";
 import type { AnalystResult } from "./schemas/analyst.zod.js";
 import { AnalystResultSchema } from "./schemas/analyst.zod.js";
@@ -15,96 +29,329 @@ import type { IdeatorResult } from "./schemas/ideator.zod.js";
 import { IdeatorResultSchema } from "./schemas/ideator.zod.js";
 import type { SalvageResult } from "./schemas/salvage.zod.js";
 import { SalvageResultSchema } from "./schemas/salvage.zod.js";
-import type { ZodSchema } from "zod";
+import { RefereeDraftSchema, type RefereeDraft } from "./schemas/referee.zod.js";
+import { ZodError, type ZodSchema } from "zod";
 import type { DecisionPacket } from "./schemas/packet.zod.js";
+import type { SkepticPersona } from "../pipeline/skeptic-panel.js";
+
+let _provider: LLMProvider | null = null;
+let _providerKey: string | null = null;
+let _cassetteSession: { mode: "record" | "replay"; cassette: Cassette; provider: LLMProvider } | null = null;
+let _usage = new Map<string, StageUsage>();
+let _callLog: CallLogEntry[] = [];
+let _packingLog: PackingLogEntry[] = [];
+let _retryLog: RetryLogEntry[] = [];
+let _validationFailures: ValidationFailure[] = [];
+// Survives per-run resets so a budget can span a whole command (e.g. a brainstorm group)
+let _sessionUsage = new Map<string, StageUsage>();
+
+function getConfiguredProvider(): LLMProvider {
+  const config = loadConfig();
+  const key = JSON.stringify([config.provider, config.openaiModel, config.localBaseUrl, config.localModel]);
+  if (_provider && _providerKey === key) return _provider;
+  _provider = createProvider(config);
+  _providerKey = key;
+  return _provider;
+}
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-// Resolve project root: works from both src/ (dev) and dist/ (prod)
-const PROJECT_ROOT = path.resolve(__dirname, "..", "..");
+/**
+ * Returns the provider selected by the current config.
+ * Rebuilt when the config changes between runs (e.g. a different --provider).
+ * While a cassette is active, calls are recorded to it or replayed from it.
+ */
+export function getProvider(): LLMProvider {
+  if (_cassetteSession) return _cassetteSession.provider;
+  return getConfiguredProvider();
+}
 
-let _client: OpenAI | null = null;
-let _totalTokens = 0;
+/**
+ * Start recording every model call into a new cassette.
+ */
+export function startRecording(): Cassette {
+  const cassette = createCassette(getConfiguredProvider());
+  _cassetteSession = {
+    mode: "record",
+    cassette,
+    provider: createRecordingProvider(getConfiguredProvider(), cassette),
+  };
+  return cassette;
+}
 
-function getClient(): OpenAI {
-  if (_client) return _client;
-  const config = loadConfig();
-  _client = new OpenAI({ apiKey: config.openaiApiKey });
-  return _client;
+/**
+ * Serve every model call from a recorded cassette instead of the network.
+ */
+export function startReplay(cassette: Cassette): void {
+  _cassetteSession = { mode: "replay", cassette, provider: createReplayProvider(cassette) };
 }
 
-function loadPrompt(name: string): string {
-  // Try src/ first (dev with tsx), then dist/ (compiled)
-  const srcPath = path.join(PROJECT_ROOT, "src", "openai", "prompts", `${name}.md`);
-  if (fs.existsSync(srcPath)) {
-    return fs.readFileSync(srcPath, "utf-8");
-  }
-  // Fallback to relative from __dirname (in case structure differs)
-  const relativePath = path.join(__dirname, "prompts", `${name}.md`);
-  return fs.readFileSync(relativePath, "utf-8");
+export function stopCassette(): void {
+  _cassetteSession = null;
+}
+
+export interface PackingLogEntry extends PackingReport {
+  stage: StageName;
+}
+
+/**
+ * How each stage's evidence and competitors were packed since the last reset, for the debug log.
+ */
+export function getPackingLog(): PackingLogEntry[] {
+  return _packingLog.map((entry) => ({ ...entry }));
+}
+
+export function resetPackingLog(): void {
+  _packingLog = [];
+}
+
+/**
+ * Evidence and competitor template variables, packed into the configured context budget.
+ */
+function contextVars(
+  stage: StageName,
+  evidence: EvidenceItem[],
+  competitors: ScoutResult["competitors"]
+): TemplateVars {
+  const packed = packContext(evidence, competitors, loadConfig().contextTokenBudget);
+  _packingLog.push({ stage, ...packed.report });
+  return {
+    evidenceCount: evidence.length,
+    evidenceShown: packed.report.evidenceIncluded,
+    evidence: packed.evidence,
+    evidenceOverflow: packed.evidenceOverflow,
+    competitorCount: competitors.length,
+    competitorsOmitted: packed.report.droppedCompetitors.length,
+    competitors: packed.competitors,
+  };
+}
+
+/**
+ * A stage's system and user prompts, rendered from `<stage>.system.md` and `<stage>.user.md`.
+ */
+function stagePrompts(stage: StageName, vars: TemplateVars): { systemPrompt: string; userPrompt: string } {
+  return {
+    systemPrompt: renderPrompt(`${stage}.system`, vars),
+    userPrompt: renderPrompt(`${stage}.user`, vars),
+  };
 }
 
 export function getTotalTokens(): number {
-  return _totalTokens;
+  let total = 0;
+  for (const u of _usage.values()) {
+    total += u.inputTokens + u.outputTokens;
+  }
+  return total;
 }
 
-export function resetTokenCount(): void {
-  _totalTokens = 0;
+/**
+ * Usage since the last reset, one entry per stage and model, in first-call order.
+ */
+export function getStageUsage(): StageUsage[] {
+  return Array.from(_usage.values(), (u) => ({ ...u }));
+}
+
+export function resetUsage(): void {
+  _usage = new Map();
+}
+
+/**
+ * Usage since the last session reset, across every run in the current command.
+ */
+export function getSessionUsage(): StageUsage[] {
+  return Array.from(_sessionUsage.values(), (u) => ({ ...u }));
+}
+
+export function resetSessionUsage(): void {
+  _sessionUsage = new Map();
+}
+
+/**
+ * Count usage spent before this process started (a stage restored from a checkpoint)
+ * toward the run and the session, so cost and budget cover the whole run.
+ */
+export function restoreUsage(usage: StageUsage[]): void {
+  for (const u of usage) {
+    for (const totals of [_usage, _sessionUsage]) {
+      const key = `${u.stage}|${u.model}`;
+      const entry = totals.get(key);
+      if (!entry) {
+        totals.set(key, { ...u });
+        continue;
+      }
+      entry.calls += u.calls;
+      entry.inputTokens += u.inputTokens;
+      entry.cachedInputTokens += u.cachedInputTokens;
+      entry.outputTokens += u.outputTokens;
+      entry.webSearchCalls += u.webSearchCalls;
+    }
+  }
+}
+
+function recordUsage(stage: StageName, model: string, usage: ChatUsage): void {
+  addUsage(_usage, stage, model, usage);
+  addUsage(_sessionUsage, stage, model, usage);
+}
+
+function addUsage(totals: Map<string, StageUsage>, stage: StageName, model: string, usage: ChatUsage): void {
+  const key = `${stage}|${model}`;
+  let entry = totals.get(key);
+  if (!entry) {
+    entry = { stage, model, calls: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, webSearchCalls: 0 };
+    totals.set(key, entry);
+  }
+  entry.calls++;
+  entry.inputTokens += usage.inputTokens;
+  entry.cachedInputTokens += usage.cachedInputTokens ?? 0;
+  entry.outputTokens += usage.outputTokens;
+  entry.webSearchCalls += usage.webSearchCalls ?? 0;
+}
+
+export interface ModelReply {
+  text: string;
+  citations: Citation[];
 }
 
 interface CallOptions {
+  stage: StageName;
+  attempt?: number;
   systemPrompt: string;
   userPrompt: string;
   useWebSearch?: boolean;
+  responseFormat?: ResponseFormat;
 }
 
 /**
- * Core call to OpenAI Responses API.
- * Returns the raw text output.
+ * How a JSON-producing call got its output: enforced by a strict response
+ * format, or scraped from free text with `safeJsonParse`.
  */
-async function callOpenAI(options: CallOptions): Promise<string> {
-  const config = loadConfig();
-  const client = getClient();
+export type OutputMode = "structured" | "json-scrape";
 
-  const tools: OpenAI.Responses.Tool[] = options.useWebSearch
-    ? [{ type: "web_search_preview" }]
-    : [];
+export interface CallLogEntry {
+  stage: StageName;
+  attempt: number;
+  outputMode: OutputMode;
+}
 
-  const result = await withRetry(async () => {
-    const response = await client.responses.create({
-      model: config.openaiModel,
-      instructions: options.systemPrompt,
-      input: options.userPrompt,
-      tools,
-    });
+/**
+ * JSON-producing calls since the last reset, for the pipeline debug log.
+ */
+export function getCallLog(): CallLogEntry[] {
+  return _callLog.map((entry) => ({ ...entry }));
+}
 
-    // Accumulate token usage
-    if (response.usage) {
-      _totalTokens += (response.usage.input_tokens ?? 0) + (response.usage.output_tokens ?? 0);
-    }
+export function resetCallLog(): void {
+  _callLog = [];
+}
+
+export interface ValidationFailure {
+  stage: StageName;
+  /** Validation attempt (0 = first try) */
+  attempt: number;
+  error: string;
+}
+
+/**
+ * Outputs that failed schema validation since the last reset, including ones a retry fixed.
+ */
+export function getValidationFailures(): ValidationFailure[] {
+  return _validationFailures.map((entry) => ({ ...entry }));
+}
+
+export function resetValidationFailures(): void {
+  _validationFailures = [];
+}
+
+export interface RetryLogEntry extends RetryEvent {
+  stage: StageName;
+}
+
+/**
+ * Model call retries since the last reset, for the pipeline debug log.
+ */
+export function getRetryLog(): RetryLogEntry[] {
+  return _retryLog.map((entry) => ({ ...entry }));
+}
+
+export function resetRetryLog(): void {
+  _retryLog = [];
+}
+
+/**
+ * Strict response format for a stage's schema, or undefined when the provider
+ * can't enforce one and output must be scraped instead.
+ */
+function responseFormatFor(stage: StageName, schema: ZodSchema<unknown>): ResponseFormat | undefined {
+  if (!getProvider().supportsStructuredOutput) return undefined;
+  return toResponseFormat(stage.replace(/-/g, "_"), schema);
+}
 
-    // Extract text from output items
-    const textParts: string[] = [];
-    for (const item of response.output) {
-      if (item.type === "message") {
-        for (const content of item.content) {
-          if (content.type === "output_text") {
-            textParts.push(content.text);
-          }
-        }
+/**
+ * Core call to the configured provider.
+ * Web search is only requested when the provider supports it.
+ * Each attempt is aborted after the configured call timeout (and retried), and every
+ * attempt is aborted, without retry, once the command is cancelled.
+ * Returns the raw text output and any web search citations.
+ */
+async function callModel(options: CallOptions): Promise<ModelReply> {
+  const provider = getProvider();
+  const config = loadConfig();
+  const settings = config.stageSettings[options.stage] ?? {};
+  const cancelSignal = getCancelSignal();
+
+  const result = await withRetry(async () => {
+    const timeout = AbortSignal.timeout(config.callTimeoutMs);
+    const response = await provider.chat({
+      stage: options.stage,
+      attempt: options.attempt ?? 0,
+      model: settings.model,
+      temperature: settings.temperature,
+      reasoningEffort: settings.reasoningEffort,
+      systemPrompt: options.systemPrompt,
+      userPrompt: options.userPrompt,
+      useWebSearch: options.useWebSearch && provider.supportsWebSearch,
+      responseFormat: provider.supportsStructuredOutput ? options.responseFormat : undefined,
+      signal: AbortSignal.any([cancelSignal, timeout]),
+    }).catch((err: unknown) => {
+      if (timeout.aborted && !cancelSignal.aborted) {
+        throw new Error(`${options.stage} call timeout after ${config.callTimeoutMs / 1000}s`);
       }
-    }
+      throw err;
+    });
+
+    recordUsage(options.stage, response.model ?? settings.model ?? provider.model, response.usage);
 
-    return textParts.join("\n");
+    return { text: response.text, citations: response.citations ?? [] };
+  }, {
+    signal: cancelSignal,
+    maxTotalWaitMs: config.retryMaxWaitMs,
+    onRetry: (event) => _retryLog.push({ stage: options.stage, ...event }),
   });
 
   return result;
 }
 
 /**
- * Call OpenAI and validate the JSON response against a Zod schema.
+ * Thrown when a stage's output still fails schema validation after every retry.
+ * Carries the last response that parsed as JSON (if any) so callers can salvage it.
+ */
+export class ValidationFailedError extends Error {
+  constructor(
+    message: string,
+    public readonly stage: StageName,
+    public readonly lastOutput: unknown
+  ) {
+    super(message);
+    this.name = "ValidationFailedError";
+  }
+}
+
+/**
+ * Call the model and validate the JSON response against a Zod schema.
+ * Uses a strict response format derived from the schema when the provider
+ * supports one, otherwise scrapes JSON from the text.
  * Retries up to 2 times on validation failure with error feedback.
  */
 async function callAndValidate<T>(
+  stage: StageName,
   systemPrompt: string,
   userPrompt: string,
   schema: ZodSchema<T>,
@@ -112,6 +359,9 @@ async function callAndValidate<T>(
   maxValidationRetries: number = 2
 ): Promise<T> {
   let lastError: string | null = null;
+  let lastOutput: unknown = undefined;
+  const responseFormat = responseFormatFor(stage, schema);
+  const outputMode: OutputMode = responseFormat ? "structured" : "json-scrape";
 
   for (let attempt = 0; attempt <= maxValidationRetries; attempt++) {
     const prompt =
@@ -119,20 +369,28 @@ async function callAndValidate<T>(
         ? userPrompt
         : `${userPrompt}\n\nYour previous response had a validation error: ${lastError}\nPlease fix the output and return valid JSON.`;
 
-    const raw = await callOpenAI({
+    const { text: raw } = await callModel({
+      stage,
+      attempt,
       systemPrompt,
       userPrompt: prompt,
       useWebSearch,
+      responseFormat,
     });
+    _callLog.push({ stage, attempt, outputMode });
 
     try {
-      const parsed = safeJsonParse(raw);
+      const parsed = stripNulls(safeJsonParse(raw));
+      lastOutput = parsed;
       return schema.parse(parsed);
     } catch (err) {
       lastError = err instanceof Error ? err.message : String(err);
+      _validationFailures.push({ stage, attempt, error: describeValidationError(err) });
       if (attempt === maxValidationRetries) {
-        throw new Error(
-          `Failed to get valid response after ${maxValidationRetries + 1} attempts. Last error: ${lastError}`
+        throw new ValidationFailedError(
+          `Failed to get valid response after ${maxValidationRetries + 1} attempts. Last error: ${lastError}`,
+          stage,
+          lastOutput
         );
       }
     }
@@ -142,54 +400,80 @@ async function callAndValidate<T>(
   throw new Error("Validation failed");
 }
 
+/**
+ * One line per schema issue (`rubric.painIntensity: Number must be less than or equal to 5`)
+ * instead of the ZodError's JSON dump.
+ */
+function describeValidationError(err: unknown): string {
+  if (err instanceof ZodError) {
+    return err.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Store for Scout phase-1 search results, keyed by query set and model. `model` also
+ * carries the search prompt's template hashes.
+ */
+export interface SearchCache {
+  get(queries: string[], model: string): ModelReply | undefined;
+  put(queries: string[], model: string, reply: ModelReply): void;
+}
+
 export interface ScoutInput {
   idea: string;
   niche?: string;
   customer?: string;
   constraints?: string;
   queries: string[];
+  /** Competitors the Skeptic said were missed; the Scout profiles each one */
+  competitorsToResearch?: string[];
+  searchCache?: SearchCache;
 }
 
 /**
  * Two-phase Scout:
  * Phase 1: Search with web_search (natural language response)
+ *          or recall from model knowledge when the provider has no search tool
+ *          (served from `searchCache` when the same queries were searched recently)
  * Phase 2: Structure results into ScoutResult JSON
+ * The phase-1 citations are returned alongside so evidence URLs can be checked against them.
  */
-export async function runScout(input: ScoutInput): Promise<ScoutResult> {
-  const scoutPrompt = loadPrompt("scout");
-
-  const queryList = input.queries.map((q, i) => `${i + 1}. ${q}`).join("\n");
-  const userPrompt = `Idea: ${input.idea}
-${input.niche ? `Niche: ${input.niche}` : ""}
-${input.customer ? `Customer: ${input.customer}` : ""}
-${input.constraints ? `Constraints: ${input.constraints}` : ""}
-
-Search queries to use:
-${queryList}
-
-Research this idea thoroughly using the search queries above. Find evidence of the pain point, existing competitors, and market signals.`;
+export async function runScout(input: ScoutInput): Promise<ScoutResult & { citations: Citation[] }> {
+  const provider = getProvider();
+  const vars: TemplateVars = {
+    idea: input.idea,
+    niche: input.niche,
+    customer: input.customer,
+    constraints: input.constraints,
+    queryList: input.queries.map((q, i) => `${i + 1}. ${q}`).join("\n"),
+    competitorsToResearch: input.competitorsToResearch?.join(", ") ?? "",
+    // Providers without a search tool answer from model knowledge instead
+    webSearch: provider.supportsWebSearch,
+  };
 
   // Phase 1: Search with web_search enabled (natural language)
-  const phase1System = `You are a market research scout. Search the web using the provided queries and gather evidence about this business idea. Include specific quotes, URLs, competitor names, pricing signals, and user complaints. Be thorough and factual.`;
-
-  const searchResults = await callOpenAI({
-    systemPrompt: phase1System,
-    userPrompt,
-    useWebSearch: true,
-  });
+  // Cached per search model and prompt, so a new stage model or an edited template searches afresh
+  const searchModel = loadConfig().stageSettings["scout-search"]?.model ?? provider.model;
+  const cacheModel = [
+    `${provider.name}/${searchModel}`,
+    templateHash("scout-search.system"),
+    templateHash("scout-search.user"),
+  ].join(":");
+  let search = input.searchCache?.get(input.queries, cacheModel);
+  if (search === undefined) {
+    search = await callModel({
+      stage: "scout-search",
+      ...stagePrompts("scout-search", vars),
+      useWebSearch: true,
+    });
+    input.searchCache?.put(input.queries, cacheModel, search);
+  }
 
   // Phase 2: Structure into ScoutResult JSON
-  const phase2Prompt = `Here are the raw research results for the idea "${input.idea}":
-
-${searchResults}
-
-${scoutPrompt}`;
-
-  return callAndValidate(
-    "You are a data structuring assistant. Convert the research results into the exact JSON schema specified. Do not invent any information not present in the research results.",
-    phase2Prompt,
-    ScoutResultSchema
-  );
+  const { systemPrompt, userPrompt } = stagePrompts("scout-structure", { ...vars, searchResults: search.text });
+  const result = await callAndValidate("scout-structure", systemPrompt, userPrompt, ScoutResultSchema);
+  return { ...result, citations: search.citations };
 }
 
 export interface AnalystInput {
@@ -197,63 +481,41 @@ export interface AnalystInput {
   niche?: string;
   customer?: string;
   constraints?: string;
-  evidence: ScoutResult["evidence"];
+  evidence: EvidenceItem[];
   competitors: ScoutResult["competitors"];
 }
 
 export async function runAnalyst(input: AnalystInput): Promise<AnalystResult> {
-  const analystPrompt = loadPrompt("analyst");
-
-  const userPrompt = `Idea: ${input.idea}
-${input.niche ? `Niche: ${input.niche}` : ""}
-${input.customer ? `Customer: ${input.customer}` : ""}
-${input.constraints ? `Constraints: ${input.constraints}` : ""}
-
-Evidence (${input.evidence.length} items):
-${JSON.stringify(input.evidence, null, 2)}
-
-Competitors (${input.competitors.length} items):
-${JSON.stringify(input.competitors, null, 2)}
-
-${analystPrompt}`;
-
-  return callAndValidate(
-    "You are a business opportunity analyst. Analyze the evidence and competitors to assess this opportunity. Be rigorous and evidence-based.",
-    userPrompt,
-    AnalystResultSchema
-  );
+  const { systemPrompt, userPrompt } = stagePrompts("analyst", {
+    idea: input.idea,
+    niche: input.niche,
+    customer: input.customer,
+    constraints: input.constraints,
+    ...contextVars("analyst", input.evidence, input.competitors),
+  });
+  return callAndValidate("analyst", systemPrompt, userPrompt, AnalystResultSchema);
 }
 
 export interface SkepticInput {
   idea: string;
   niche?: string;
-  evidence: ScoutResult["evidence"];
+  evidence: EvidenceItem[];
   competitors: ScoutResult["competitors"];
   analysis: AnalystResult;
+  /** Point of view to argue from; the plain red team when absent */
+  persona?: SkepticPersona;
 }
 
 export async function runSkeptic(input: SkepticInput): Promise<SkepticResult> {
-  const skepticPrompt = loadPrompt("skeptic");
-
-  const userPrompt = `Idea: ${input.idea}
-${input.niche ? `Niche: ${input.niche}` : ""}
-
-Evidence (${input.evidence.length} items):
-${JSON.stringify(input.evidence, null, 2)}
-
-Competitors (${input.competitors.length} items):
-${JSON.stringify(input.competitors, null, 2)}
-
-Analyst assessment:
-${JSON.stringify(input.analysis, null, 2)}
-
-${skepticPrompt}`;
-
-  return callAndValidate(
-    "You are a ruthless red-team skeptic. Your job is to find every reason this opportunity will fail. Poke holes in the evidence, find missed competitors, and challenge assumptions.",
-    userPrompt,
-    SkepticResultSchema
-  );
+  const { systemPrompt, userPrompt } = stagePrompts("skeptic", {
+    idea: input.idea,
+    niche: input.niche,
+    persona: input.persona?.brief ? input.persona.name : undefined,
+    personaBrief: input.persona?.brief,
+    ...contextVars("skeptic", input.evidence, input.competitors),
+    analysis: JSON.stringify(input.analysis),
+  });
+  return callAndValidate("skeptic", systemPrompt, userPrompt, SkepticResultSchema);
 }
 
 export interface RefereeInput {
@@ -261,44 +523,27 @@ export interface RefereeInput {
   niche?: string;
   customer?: string;
   constraints?: string;
-  evidence: ScoutResult["evidence"];
+  evidence: EvidenceItem[];
   competitors: ScoutResult["competitors"];
   analysis: AnalystResult;
   skeptic: SkepticResult;
   evidenceStrength: number;
 }
 
-export async function runReferee(input: RefereeInput): Promise<Record<string, unknown>> {
-  const refereePrompt = loadPrompt("referee");
-
-  const userPrompt = `Idea: ${input.idea}
-${input.niche ? `Niche: ${input.niche}` : ""}
-${input.customer ? `Customer: ${input.customer}` : ""}
-${input.constraints ? `Constraints: ${input.constraints}` : ""}
-
-Evidence (${input.evidence.length} items):
-${JSON.stringify(input.evidence, null, 2)}
-
-Competitors (${input.competitors.length} items):
-${JSON.stringify(input.competitors, null, 2)}
-
-Analyst assessment:
-${JSON.stringify(input.analysis, null, 2)}
-
-Skeptic assessment:
-${JSON.stringify(input.skeptic, null, 2)}
-
-Code-computed evidence strength: ${input.evidenceStrength}/5
-
-${refereePrompt}`;
-
-  // Referee returns a raw object — the pipeline will assemble and enforce the final DecisionPacket
-  const raw = await callOpenAI({
-    systemPrompt: "You are a fair referee synthesizing all perspectives into a final decision packet. Use the code-computed evidence strength score, not your own.",
-    userPrompt,
+export async function runReferee(input: RefereeInput): Promise<RefereeDraft> {
+  const { systemPrompt, userPrompt } = stagePrompts("referee", {
+    idea: input.idea,
+    niche: input.niche,
+    customer: input.customer,
+    constraints: input.constraints,
+    ...contextVars("referee", input.evidence, input.competitors),
+    analysis: JSON.stringify(input.analysis),
+    skeptic: JSON.stringify(input.skeptic),
+    evidenceStrength: input.evidenceStrength,
   });
 
-  return safeJsonParse<Record<string, unknown>>(raw);
+  // The pipeline assembles the final DecisionPacket and enforces kill rules on top of this draft
+  return callAndValidate("referee", systemPrompt, userPrompt, RefereeDraftSchema);
 }
 
 export interface IdeatorInput {
@@ -308,37 +553,23 @@ export interface IdeatorInput {
 }
 
 export async function runIdeator(input: IdeatorInput): Promise<IdeatorResult> {
-  const ideatorPrompt = loadPrompt("ideator");
-
-  const userPrompt = `Pain point: ${input.painPoint}
-${input.niche ? `Niche: ${input.niche}` : ""}
-${input.customer ? `Customer: ${input.customer}` : ""}
-
-First, research this pain point to understand its scope, who experiences it, and what solutions (if any) already exist. Then generate 3 distinct business ideas that address it.
-
-${ideatorPrompt}`;
-
-  // Phase 1: Research the pain point with web search
-  const researchResults = await callOpenAI({
-    systemPrompt: "You are a market researcher. Search the web to understand this pain point: who experiences it, how severe it is, what solutions exist, and what gaps remain. Be thorough and factual.",
-    userPrompt: `Research this pain point thoroughly: "${input.painPoint}"${input.niche ? ` in the ${input.niche} space` : ""}${input.customer ? ` experienced by ${input.customer}` : ""}`,
+  const vars: TemplateVars = {
+    painPoint: input.painPoint,
+    niche: input.niche,
+    customer: input.customer,
+    webSearch: getProvider().supportsWebSearch,
+  };
+
+  // Phase 1: Research the pain point with web search (model knowledge if unavailable)
+  const { text: research } = await callModel({
+    stage: "ideator-research",
+    ...stagePrompts("ideator-research", vars),
     useWebSearch: true,
   });
 
   // Phase 2: Generate ideas based on research
-  const phase2Prompt = `Here is research on the pain point "${input.painPoint}":
-
-${researchResults}
-
-Based on this research, generate 3 distinct business ideas that solve this pain point. Each must be operable in ≤10 hours/week.
-
-${ideatorPrompt}`;
-
-  return callAndValidate(
-    "You are a business idea generator. Create exactly 3 distinct, viable business ideas based on the research provided. Output valid JSON only.",
-    phase2Prompt,
-    IdeatorResultSchema
-  );
+  const { systemPrompt, userPrompt } = stagePrompts("ideator", { ...vars, research });
+  return callAndValidate("ideator", systemPrompt, userPrompt, IdeatorResultSchema);
 }
 
 export interface SalvageIdeaPacket {
@@ -357,8 +588,6 @@ export interface SalvageInput {
 }
 
 export async function runSalvage(input: SalvageInput): Promise<SalvageResult> {
-  const salvagePrompt = loadPrompt("salvage");
-
   const ideaSummaries = input.ideas.map((idea, i) => {
     const dims = [
       `painIntensity: ${idea.rubricScores.painIntensity}/5`,
@@ -381,17 +610,9 @@ Key Risks: ${idea.premortem.slice(0, 3).join("; ")}
 Competitors: ${idea.competitors.slice(0, 5).join("; ")}`;
   }).join("\n\n");
 
-  const userPrompt = `Pain point: ${input.painPoint}
-
-All 3 ideas received NO_GO. Here are their full assessments:
-
-${ideaSummaries}
-
-${salvagePrompt}`;
-
-  return callAndValidate(
-    "You are a pivot strategist. All ideas failed vetting. Find the most salvageable elements and generate concrete pivots. Output valid JSON only.",
-    userPrompt,
-    SalvageResultSchema
-  );
+  const { systemPrompt, userPrompt } = stagePrompts("salvage", {
+    painPoint: input.painPoint,
+    ideaSummaries,
+  });
+  return callAndValidate("salvage", systemPrompt, userPrompt, SalvageResultSchema);
 }
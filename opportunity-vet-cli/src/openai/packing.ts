@@ -0,0 +1,174 @@
+import type { EvidenceItem, CompetitorItem } from "./schemas/scout.zod.js";
+
+/** Share of the budget competitors may use before evidence gets the rest */
+const COMPETITOR_SHARE = 0.3;
+
+export interface PackedContext {
+  /** Compact JSON of the evidence shown in full */
+  evidence: string;
+  /** One line per theme for evidence that didn't fit, or "" */
+  evidenceOverflow: string;
+  /** Compact JSON of the competitors shown */
+  competitors: string;
+  report: PackingReport;
+}
+
+/**
+ * What a stage's prompt kept, summarized or dropped, for the debug log.
+ */
+export interface PackingReport {
+  budgetTokens: number;
+  estimatedTokens: number;
+  evidenceTotal: number;
+  evidenceIncluded: number;
+  /** Evidence folded into the per-theme summaries instead of shown in full */
+  summarized: { url: string; theme: string }[];
+  competitorsTotal: number;
+  competitorsIncluded: number;
+  /** Competitor names left out entirely */
+  droppedCompetitors: string[];
+}
+
+/**
+ * Rough token count (about 4 characters per token for English and JSON).
+ * Good enough to keep prompts under a budget; not used for billing.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function evidenceRank(e: EvidenceItem): number {
+  let rank = e.credibility;
+  if (e.verified === true) rank += 2;
+  if (e.verified === false) rank -= 1;
+  if (e.cited === false) rank -= 2;
+  return rank;
+}
+
+/**
+ * Evidence ordered so the best item of every theme comes before the second-best
+ * of any theme, keeping every theme represented when the budget is tight.
+ */
+export function rankEvidence(evidence: EvidenceItem[]): EvidenceItem[] {
+  const byTheme = new Map<string, EvidenceItem[]>();
+  for (const e of evidence) {
+    const theme = e.theme || "other";
+    if (!byTheme.has(theme)) byTheme.set(theme, []);
+    byTheme.get(theme)!.push(e);
+  }
+  const groups = Array.from(byTheme.values(), (items) =>
+    [...items].sort((a, b) => evidenceRank(b) - evidenceRank(a))
+  ).sort((a, b) => evidenceRank(b[0]) - evidenceRank(a[0]));
+
+  const ranked: EvidenceItem[] = [];
+  for (let round = 0; ranked.length < evidence.length; round++) {
+    for (const group of groups) {
+      if (round < group.length) ranked.push(group[round]);
+    }
+  }
+  return ranked;
+}
+
+export function summarizeByTheme(evidence: EvidenceItem[]): string {
+  const byTheme = new Map<string, EvidenceItem[]>();
+  for (const e of evidence) {
+    const theme = e.theme || "other";
+    if (!byTheme.has(theme)) byTheme.set(theme, []);
+    byTheme.get(theme)!.push(e);
+  }
+
+  const lines: string[] = [];
+  for (const [theme, items] of byTheme) {
+    const sentiments = new Map<string, number>();
+    for (const e of items) sentiments.set(e.sentiment, (sentiments.get(e.sentiment) ?? 0) + 1);
+    const sentimentText = Array.from(sentiments, ([s, n]) => `${n} ${s}`).join(", ");
+    const domains = Array.from(new Set(items.map((e) => hostname(e.url)))).slice(0, 5).join(", ");
+    const sample = items[0].quote.length > 120 ? `${items[0].quote.slice(0, 117)}...` : items[0].quote;
+    lines.push(`- ${theme}: ${items.length} more item(s) (${sentimentText}) from ${domains}; e.g. "${sample}"`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Fit evidence and competitors into `budgetTokens` of compact JSON. Competitors are kept
+ * in order up to their share of the budget; evidence is ranked by credibility and theme
+ * coverage and shown in full until the rest of the budget is spent, with the remainder
+ * summarized per theme.
+ */
+export function packContext(
+  evidence: EvidenceItem[],
+  competitors: CompetitorItem[],
+  budgetTokens: number
+): PackedContext {
+  const allEvidence = JSON.stringify(evidence);
+  const allCompetitors = JSON.stringify(competitors);
+  if (estimateTokens(allEvidence) + estimateTokens(allCompetitors) <= budgetTokens) {
+    return {
+      evidence: allEvidence,
+      evidenceOverflow: "",
+      competitors: allCompetitors,
+      report: {
+        budgetTokens,
+        estimatedTokens: estimateTokens(allEvidence) + estimateTokens(allCompetitors),
+        evidenceTotal: evidence.length,
+        evidenceIncluded: evidence.length,
+        summarized: [],
+        competitorsTotal: competitors.length,
+        competitorsIncluded: competitors.length,
+        droppedCompetitors: [],
+      },
+    };
+  }
+
+  const keptCompetitors = takeWithin(competitors, Math.floor(budgetTokens * COMPETITOR_SHARE));
+  const competitorJson = JSON.stringify(keptCompetitors);
+  const evidenceBudget = budgetTokens - estimateTokens(competitorJson);
+
+  const ranked = rankEvidence(evidence);
+  const shown = takeWithin(ranked, evidenceBudget);
+  let overflow = ranked.slice(shown.length);
+  let summary = summarizeByTheme(overflow);
+  // Make room for the summaries by moving the lowest-ranked shown items into them
+  while (shown.length > 0 && estimateTokens(JSON.stringify(shown)) + estimateTokens(summary) > evidenceBudget) {
+    overflow = [shown.pop()!, ...overflow];
+    summary = summarizeByTheme(overflow);
+  }
+  const evidenceJson = JSON.stringify(shown);
+
+  return {
+    evidence: evidenceJson,
+    evidenceOverflow: summary,
+    competitors: competitorJson,
+    report: {
+      budgetTokens,
+      estimatedTokens: estimateTokens(evidenceJson) + estimateTokens(summary) + estimateTokens(competitorJson),
+      evidenceTotal: evidence.length,
+      evidenceIncluded: shown.length,
+      summarized: overflow.map((e) => ({ url: e.url, theme: e.theme })),
+      competitorsTotal: competitors.length,
+      competitorsIncluded: keptCompetitors.length,
+      droppedCompetitors: competitors.slice(keptCompetitors.length).map((c) => c.name),
+    },
+  };
+}
+
+/** Leading items whose compact JSON array fits in `budgetTokens` */
+function takeWithin<T>(items: T[], budgetTokens: number): T[] {
+  const kept: T[] = [];
+  let tokens = estimateTokens("[]");
+  for (const item of items) {
+    const cost = estimateTokens(JSON.stringify(item)) + 1;
+    if (tokens + cost > budgetTokens) break;
+    kept.push(item);
+    tokens += cost;
+  }
+  return kept;
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
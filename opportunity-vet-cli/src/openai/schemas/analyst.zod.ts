@@ -17,6 +17,17 @@ export const RubricDraftSchema = z.object({
   reasons: z.array(z.string()),
 });
 
+/**
+ * Evidence ids backing each claim: one list per pain theme, wedge option (its whyWorks),
+ * premortem item and rubric reason, in the same order as the claims.
+ */
+export const EvidenceRefsSchema = z.object({
+  painThemes: z.array(z.array(z.string())),
+  wedgeOptions: z.array(z.array(z.string())),
+  premortem: z.array(z.array(z.string())),
+  reasons: z.array(z.array(z.string())),
+});
+
 export const AnalystResultSchema = z.object({
   painThemes: z.array(z.string()),
   whoPays: z.string().optional(),
@@ -25,8 +36,10 @@ export const AnalystResultSchema = z.object({
   rubricDraft: RubricDraftSchema,
   premortem: z.array(z.string()),
   nextTests: z.array(z.string()),
+  evidenceRefs: EvidenceRefsSchema.optional(),
 });
 
 export type WedgeOption = z.output<typeof WedgeOptionSchema>;
 export type RubricDraft = z.output<typeof RubricDraftSchema>;
+export type EvidenceRefs = z.output<typeof EvidenceRefsSchema>;
 export type AnalystResult = z.output<typeof AnalystResultSchema>;
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { EvidenceItemSchema, CompetitorItemSchema } from "./scout.zod.js";
-import { WedgeOptionSchema } from "./analyst.zod.js";
+import { EvidenceRefsSchema, WedgeOptionSchema } from "./analyst.zod.js";
 
 export const RubricSchema = z.object({
   painIntensity: z.number().int().min(0).max(5),
@@ -16,6 +16,59 @@ export const RubricSchema = z.object({
   reasons: z.array(z.string()),
 });
 
+export const StageCostSchema = z.object({
+  stage: z.string(),
+  model: z.string(),
+  calls: z.number().int(),
+  inputTokens: z.number().int(),
+  cachedInputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  webSearchCalls: z.number().int(),
+  cost: z.number(),
+});
+
+/** Why the critique loop ended */
+export const StopReasonSchema = z.object({
+  code: z.enum(["depth", "no-queries", "evidence", "domains", "rubric", "budget", "cancelled"]),
+  message: z.string(),
+});
+
+/** Every Skeptic persona's verdict and the merged objections, each with the personas that raised it */
+export const SkepticPanelSchema = z.object({
+  personas: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      decision: z.enum(["GO", "NO_GO", "UNCLEAR"]),
+    })
+  ),
+  objections: z.array(
+    z.object({
+      kind: z.enum(["counterargument", "already-solved", "missed-competitor"]),
+      text: z.string(),
+      /** Persona ids */
+      personas: z.array(z.string()),
+    })
+  ),
+});
+
+/** Agreement between Referee samples when the rubric is the median of several */
+export const ConsistencySchema = z.object({
+  samples: z.number().int(),
+  /** Each sample's decision, before kill rules */
+  decisions: z.array(z.enum(["GO", "NO_GO", "UNCLEAR"])),
+  /** The samples disagreed on the decision */
+  unstable: z.boolean(),
+  dimensions: z.record(
+    z.object({
+      median: z.number().int(),
+      min: z.number().int(),
+      max: z.number().int(),
+      confidence: z.enum(["high", "medium", "low"]),
+    })
+  ),
+});
+
 export const DecisionPacketSchema = z.object({
   runId: z.string(),
   createdAt: z.string(),
@@ -36,15 +89,61 @@ export const DecisionPacketSchema = z.object({
     nextTests: z.array(z.string()),
   }),
   rubric: RubricSchema,
+  /** Evidence ids behind each claim, checked against `evidence`; rubric reasons added by kill rules cite nothing */
+  evidenceRefs: EvidenceRefsSchema.optional(),
+  /** Present when the Referee was sampled more than once */
+  consistency: ConsistencySchema.optional(),
+  /** Objections from the Skeptic (or the Skeptic panel) the Referee weighed */
+  skepticPanel: SkepticPanelSchema.optional(),
   warnings: z.array(z.string()),
   meta: z.object({
     queries: z.array(z.string()),
+    provider: z.string().optional(),
     model: z.string(),
     iterations: z.number().int(),
     tokenUsage: z.number().int(),
     estimatedCost: z.number(),
+    costBreakdown: z.array(StageCostSchema).optional(),
+    /** Present when quote verification ran */
+    quoteVerification: z
+      .object({
+        checked: z.number().int(),
+        verified: z.number().int(),
+        unreachable: z.number().int(),
+      })
+      .optional(),
+    /** Every prompt template rendered for the run, with a hash of its content */
+    prompts: z
+      .array(
+        z.object({
+          name: z.string(),
+          source: z.enum(["run", "project", "built-in"]),
+          hash: z.string(),
+        })
+      )
+      .optional(),
+    /** Model that served each stage, when stages are configured with different models */
+    stageModels: z.record(z.string()).optional(),
+    searchCache: z
+      .object({
+        enabled: z.boolean(),
+        hits: z.number().int(),
+        misses: z.number().int(),
+        oldestHitAt: z.string().optional(),
+      })
+      .optional(),
+    /** Fields the pipeline had to default or clamp because the Referee output failed validation */
+    refereeAdjustments: z.array(z.string()).optional(),
+    /** Why the run stopped early (Ctrl-C or the run timeout); the packet holds what was gathered by then */
+    partial: z.string().optional(),
+    /** Why the critique loop stopped: max depth, no follow-up queries, convergence, budget or cancellation */
+    stopReason: StopReasonSchema.optional(),
   }),
 });
 
 export type Rubric = z.infer<typeof RubricSchema>;
+export type StageCost = z.infer<typeof StageCostSchema>;
+export type StopReason = z.infer<typeof StopReasonSchema>;
+export type SkepticPanel = z.infer<typeof SkepticPanelSchema>;
+export type Consistency = z.infer<typeof ConsistencySchema>;
 export type DecisionPacket = z.infer<typeof DecisionPacketSchema>;
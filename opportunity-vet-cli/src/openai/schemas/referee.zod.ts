@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { EvidenceRefsSchema, WedgeOptionSchema } from "./analyst.zod.js";
+
+export const RefereeRubricSchema = z.object({
+  painIntensity: z.number().int().min(0).max(5),
+  frequency: z.number().int().min(0).max(5),
+  buyerClarity: z.number().int().min(0).max(5),
+  budgetSignal: z.number().int().min(0).max(5),
+  switchingCost: z.number().int().min(0).max(5),
+  competition: z.number().int().min(0).max(5),
+  distributionFeasibility: z.number().int().min(0).max(5),
+  decision: z.enum(["GO", "NO_GO", "UNCLEAR"]),
+  reasons: z.array(z.string()),
+});
+
+/**
+ * What the Referee contributes to the packet. Evidence, competitors,
+ * evidenceStrength and total are assembled in code.
+ */
+export const RefereeDraftSchema = z.object({
+  analysis: z.object({
+    painThemes: z.array(z.string()),
+    whoPays: z.string().optional(),
+    whyNow: z.string().optional(),
+    wedgeOptions: z.array(WedgeOptionSchema),
+    premortem: z.array(z.string()),
+    nextTests: z.array(z.string()),
+  }),
+  rubric: RefereeRubricSchema,
+  evidenceRefs: EvidenceRefsSchema.optional(),
+});
+
+export type RefereeRubric = z.output<typeof RefereeRubricSchema>;
+export type RefereeDraft = z.output<typeof RefereeDraftSchema>;
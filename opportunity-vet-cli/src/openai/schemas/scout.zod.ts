@@ -1,6 +1,8 @@
 import { z } from "zod";
 
 export const EvidenceItemSchema = z.object({
+  /** Set in code from the URL at dedupe; claims cite evidence by it */
+  id: z.string().optional(),
   url: z.string(),
   title: z.string().optional(),
   sourceType: z.string(),
@@ -8,6 +10,12 @@ export const EvidenceItemSchema = z.object({
   theme: z.string(),
   sentiment: z.enum(["positive", "negative", "neutral", "mixed"]),
   credibility: z.number().int().min(1).max(5),
+  /** Set in code: whether a web search citation backs the URL. Unset when no search ran. */
+  cited: z.boolean().optional(),
+  /** Set in code by quote verification: whether the quote was found on the fetched page */
+  verified: z.boolean().optional(),
+  /** 0-1 fuzzy match of the quote against the page; unset when the page couldn't be fetched */
+  matchScore: z.number().min(0).max(1).optional(),
 });
 
 export const CompetitorItemSchema = z.object({
@@ -21,7 +29,8 @@ export const CompetitorItemSchema = z.object({
 
 export const ScoutResultSchema = z.object({
   queries: z.array(z.string()),
-  evidence: z.array(EvidenceItemSchema),
+  // The id, `cited` and quote verification are set in code, never taken from the model
+  evidence: z.array(EvidenceItemSchema.omit({ id: true, cited: true, verified: true, matchScore: true })),
   competitors: z.array(CompetitorItemSchema),
 });
 
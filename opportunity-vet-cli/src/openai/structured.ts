@@ -0,0 +1,91 @@
+import { z, type ZodTypeAny } from "zod";
+import { zodTextFormat } from "openai/helpers/zod";
+
+/**
+ * JSON Schema for a strict structured-output response format.
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Strict structured outputs require every property to be present, so optional
+ * fields are rewritten as nullable. Pair with `stripNulls` before validating
+ * against the original schema.
+ */
+export function toStrictSchema(schema: ZodTypeAny): ZodTypeAny {
+  if (schema instanceof z.ZodOptional) {
+    return toStrictSchema(schema.unwrap()).nullable();
+  }
+  if (schema instanceof z.ZodDefault) {
+    return toStrictSchema(schema.removeDefault());
+  }
+  if (schema instanceof z.ZodNullable) {
+    return toStrictSchema(schema.unwrap()).nullable();
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, ZodTypeAny> = {};
+    for (const [key, value] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+      shape[key] = toStrictSchema(value);
+    }
+    return new z.ZodObject({ ...schema._def, shape: () => shape });
+  }
+  if (schema instanceof z.ZodArray) {
+    return new z.ZodArray({ ...schema._def, type: toStrictSchema(schema.element) });
+  }
+  return schema;
+}
+
+export function toResponseFormat(name: string, schema: ZodTypeAny): ResponseFormat {
+  return {
+    name,
+    schema: toNullUnions(zodTextFormat(toStrictSchema(schema), name).schema) as Record<string, unknown>,
+  };
+}
+
+/**
+ * The SDK's converter marks nullable fields with the OpenAPI-style `nullable: true`;
+ * JSON Schema (and strict mode) expresses them as a union with "null".
+ */
+function toNullUnions(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(toNullUnions);
+  }
+  if (!node || typeof node !== "object") {
+    return node;
+  }
+
+  const { nullable, ...rest } = node as Record<string, unknown>;
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    converted[key] = toNullUnions(value);
+  }
+  if (nullable !== true) {
+    return converted;
+  }
+  if (typeof converted.type === "string") {
+    converted.type = [converted.type, "null"];
+    if (Array.isArray(converted.enum)) converted.enum = [...converted.enum, null];
+    return converted;
+  }
+  return { anyOf: [converted, { type: "null" }] };
+}
+
+/**
+ * Drop null-valued object properties so nullable fields from a strict response
+ * validate as absent optional fields.
+ */
+export function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripNulls);
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      if (v !== null) result[key] = stripNulls(v);
+    }
+    return result;
+  }
+  return value;
+}
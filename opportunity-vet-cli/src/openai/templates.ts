@@ -0,0 +1,114 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadConfig } from "../config.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// Resolve project root: works from both src/ (dev) and dist/ (prod)
+const PROJECT_ROOT = path.resolve(__dirname, "..", "..");
+
+export type TemplateVars = Record<string, string | number | boolean | undefined>;
+
+/** Where a template was loaded from, in lookup order */
+export type PromptSource = "run" | "project" | "built-in";
+
+export interface PromptUse {
+  name: string;
+  source: PromptSource;
+  /** First 12 hex chars of the template's sha256, before rendering */
+  hash: string;
+}
+
+let _promptsUsed = new Map<string, PromptUse>();
+
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+/**
+ * Render a template: `{{name}}` inserts a variable, `{{#name}}...{{/name}}` keeps its
+ * body only when the variable is truthy and `{{^name}}...{{/name}}` only when it is falsy.
+ * Sections don't nest. Values are inserted verbatim and never re-expanded.
+ * Variables not in `vars` are an error, so typos in an override surface immediately.
+ */
+export function renderTemplate(template: string, vars: TemplateVars, name = "template"): string {
+  const check = (key: string) => {
+    if (!(key in vars)) {
+      throw new Error(`Prompt template "${name}" uses unknown variable {{${key}}}. Available: ${Object.keys(vars).join(", ")}`);
+    }
+  };
+
+  const withSections = template.replace(SECTION, (_match, kind: string, key: string, body: string) => {
+    check(key);
+    return (kind === "#") === Boolean(vars[key]) ? body : "";
+  });
+  return withSections.replace(VARIABLE, (_match, key: string) => {
+    check(key);
+    const value = vars[key];
+    return value === undefined || value === false ? "" : String(value);
+  });
+}
+
+export function hashTemplate(template: string): string {
+  return crypto.createHash("sha256").update(template).digest("hex").slice(0, 12);
+}
+
+/**
+ * Directories searched for `<name>.md`, most specific first: the per-run `--prompts`
+ * dir, the project's PROMPTS_DIR, then the templates shipped with the CLI.
+ */
+function templateDirs(): { dir: string; source: PromptSource }[] {
+  const config = loadConfig();
+  const dirs: { dir: string; source: PromptSource }[] = [];
+  if (config.runPromptsDir) {
+    if (!fs.existsSync(config.runPromptsDir)) {
+      throw new Error(`Prompts directory not found: ${config.runPromptsDir}`);
+    }
+    dirs.push({ dir: config.runPromptsDir, source: "run" });
+  }
+  dirs.push({ dir: config.promptsDir, source: "project" });
+  // Try src/ first (dev with tsx), then next to this module (in case structure differs)
+  const srcDir = path.join(PROJECT_ROOT, "src", "openai", "prompts");
+  dirs.push({ dir: fs.existsSync(srcDir) ? srcDir : path.join(__dirname, "prompts"), source: "built-in" });
+  return dirs;
+}
+
+export function loadTemplate(name: string): { template: string; source: PromptSource } {
+  for (const { dir, source } of templateDirs()) {
+    const filePath = path.join(dir, `${name}.md`);
+    if (fs.existsSync(filePath)) {
+      // A single trailing newline is an artifact of the file, not part of the prompt
+      return { template: fs.readFileSync(filePath, "utf-8").replace(/\r?\n$/, ""), source };
+    }
+  }
+  throw new Error(`Prompt template "${name}.md" not found`);
+}
+
+/**
+ * Hash of the named template as it would load now, without recording it as used.
+ */
+export function templateHash(name: string): string {
+  return hashTemplate(loadTemplate(name).template);
+}
+
+/**
+ * Load, record and render the named prompt template.
+ */
+export function renderPrompt(name: string, vars: TemplateVars): string {
+  const { template, source } = loadTemplate(name);
+  if (!_promptsUsed.has(name)) {
+    _promptsUsed.set(name, { name, source, hash: hashTemplate(template) });
+  }
+  return renderTemplate(template, vars, name);
+}
+
+/**
+ * Templates rendered since the last reset, in first-use order.
+ */
+export function getPromptsUsed(): PromptUse[] {
+  return Array.from(_promptsUsed.values(), (p) => ({ ...p }));
+}
+
+export function resetPromptsUsed(): void {
+  _promptsUsed = new Map();
+}
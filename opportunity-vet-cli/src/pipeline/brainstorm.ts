@@ -1,16 +1,37 @@
-import crypto from "node:crypto";
 import path from "node:path";
 import fs from "fs-extra";
 import { loadConfig } from "../config.js";
-import { runIdeator, runSalvage, type SalvageIdeaPacket } from "../openai/client.js";
-import { runPipelineCore, type PipelineOptions } from "./run.js";
+import {
+  runIdeator,
+  runSalvage,
+  resetUsage,
+  getStageUsage,
+  getTotalTokens,
+  getSessionUsage,
+  resetSessionUsage,
+  startRecording,
+  startReplay,
+  stopCassette,
+  type SalvageIdeaPacket,
+} from "../openai/client.js";
+import { loadCassette, saveCassette, type Cassette } from "../providers/cassette.js";
+import { runPipelineCore, takeFailedDebugLog, type CliOutputOptions, type PipelineOptions, type RunResult } from "./run.js";
 import { generateReport, generateBrainstormReport } from "./report.js";
-import { insertRun } from "../db/index.js";
+import { checkpointsEnabled, createCheckpointer, newRunId } from "./checkpoint.js";
+import { saveDebugLog } from "./debug-log.js";
+import { insertRun, insertStageCosts, insertCheckpointRun, completeCheckpointRun } from "../db/index.js";
+import { loadPricing, priceUsage } from "./cost.js";
+import { measureSpend, estimateCallSpend, checkBudget, type BudgetLimits } from "./budget.js";
+import type { StageUsage } from "../providers/index.js";
 import { applyKillRules } from "./scoring.js";
+import type { ConvergenceSettings } from "./convergence.js";
+import { resolvePanel, type SkepticPersona } from "./skeptic-panel.js";
 import type { DecisionPacket } from "../openai/schemas/packet.zod.js";
-import type { Idea } from "../openai/schemas/ideator.zod.js";
+import type { Idea, IdeatorResult } from "../openai/schemas/ideator.zod.js";
 import type { SalvageResult } from "../openai/schemas/salvage.zod.js";
-import { startStep, succeedStep, failStep } from "../utils/spinner.js";
+import { startStep, succeedStep, failStep, warnStep, info } from "../utils/progress.js";
+import { CancelledError, cancelReason, startCancellable, interruptSignal } from "../utils/cancel.js";
+import { ConfigError, RunFailedError } from "../errors.js";
 
 export interface BrainstormOptions {
   painPoint: string;
@@ -19,37 +40,135 @@ export interface BrainstormOptions {
   depth: number;
   save: boolean;
   verbose: boolean;
+  /** Record every model call to `<groupId>.cassette.json` in the output dir */
+  record?: boolean;
+  /** Serve model calls from this cassette file instead of the network */
+  replay?: string;
+  /** Spend ceiling for the whole group: Ideator, every idea's pipeline and Salvage */
+  budget?: BudgetLimits;
+  /** Reuse cached Scout searches (default true) */
+  cache?: boolean;
+  /** Check every evidence quote against its page */
+  verifyQuotes?: boolean;
+  /** Referee samples per idea; see self-consistency.ts */
+  refereeSamples?: number;
+  /** When each idea's critique loop stops before `depth` */
+  convergence?: Partial<ConvergenceSettings>;
+  /** Skeptic personas for every idea (defaults to the configured panel; stored like PipelineOptions') */
+  skepticPanel?: SkepticPersona[];
+  /** Cancel the group after this long; finished ideas are reported and the current one is partial */
+  runTimeoutMs?: number;
+  /** Cancel the group when this aborts, like `runTimeoutMs` */
+  signal?: AbortSignal;
+  /** Checkpoint the Ideator, every idea's stages and Salvage (default true), like PipelineOptions' */
+  checkpoint?: boolean;
+  /** Group id to resume: the Ideator, finished ideas and Salvage are restored from checkpoints */
+  groupId?: string;
 }
 
-export async function runBrainstorm(options: BrainstormOptions): Promise<void> {
+export interface BrainstormResult {
+  groupId: string;
+  /** Every idea the Ideator generated */
+  ideas: Idea[];
+  /** One per vetted idea, in order; fewer than `ideas` when the group was cancelled */
+  runs: RunResult[];
+  salvage?: SalvageResult;
+  comparisonReport: string;
+  /** Saved comparison report, when `save` is set */
+  comparisonPath?: string;
+  cassettePath?: string;
+  totalTokens: number;
+  totalCost: number;
+  /** Why the group stopped early */
+  partial?: string;
+}
+
+/**
+ * Generate ideas from a pain point, vet each one and compare them. Never prints; progress
+ * goes to the progress handler. A failed group throws RunFailedError (or ConfigError).
+ */
+export async function executeBrainstorm(options: BrainstormOptions): Promise<BrainstormResult> {
   const config = loadConfig();
-  const groupId = crypto.randomUUID().slice(0, 12);
+  const groupId = options.groupId ?? newRunId();
+  const checkpointed = checkpointsEnabled(options);
+  const checkpoints = createCheckpointer(groupId, checkpointed);
+  const skepticPanel = options.skepticPanel ?? resolvePanel(config.skepticPanel, config.skepticPersonas);
+  const stopCancellable = startCancellable({ timeoutMs: options.runTimeoutMs, signal: options.signal });
+  if (checkpointed && !options.groupId) {
+    const { signal: _signal, ...storedOptions } = { ...options, skepticPanel };
+    insertCheckpointRun({
+      id: groupId,
+      kind: "brainstorm",
+      createdAt: new Date().toISOString(),
+      label: options.painPoint,
+      options: JSON.stringify(storedOptions),
+      provider: config.provider,
+      promptsDir: config.runPromptsDir ?? null,
+    });
+  }
+  // Ideator and Salvage are group-level stages; pipeline runs reset and track their own usage
+  const groupUsage: StageUsage[] = [];
 
+  let cassette: Cassette | null = null;
+  const cassettePath = path.join(config.outputDir, `${groupId}.cassette.json`);
   try {
+    resetSessionUsage();
+    if (options.replay) {
+      startReplay(loadCassette(options.replay));
+    } else if (options.record) {
+      cassette = startRecording();
+    }
+
     // --- Step 1: Generate 3 ideas from the pain point ---
-    startStep("Generating business ideas from pain point (Ideator)...");
-    const ideatorResult = await runIdeator({
-      painPoint: options.painPoint,
-      niche: options.niche,
-      customer: options.customer,
-    });
-    succeedStep(`Ideator generated ${ideatorResult.ideas.length} ideas`);
+    const pricing = loadPricing(config);
 
-    console.log("\nGenerated ideas:");
-    for (let i = 0; i < ideatorResult.ideas.length; i++) {
-      const idea = ideatorResult.ideas[i];
-      console.log(`  ${i + 1}. ${idea.name} — ${idea.description}`);
+    startStep("Generating business ideas from pain point (Ideator)...", { runId: groupId, stage: "ideator" });
+    resetUsage();
+    const ideatorStart = Date.now();
+    // A group cancelled before it has ideas ends as a partial result with none vetted
+    let ideatorResult: IdeatorResult = { ideas: [] };
+    try {
+      ideatorResult = await checkpoints.step("ideator", 0, () =>
+        runIdeator({
+          painPoint: options.painPoint,
+          niche: options.niche,
+          customer: options.customer,
+        })
+      );
+      const ideatorNote = checkpoints.restored("ideator", 0) ? " (from checkpoint)" : "";
+      succeedStep(`Ideator generated ${ideatorResult.ideas.length} ideas${ideatorNote}`, {
+        runId: groupId,
+        stage: "ideator",
+        details: { ideas: ideatorResult.ideas.length, tokensUsed: getTotalTokens(), durationMs: Date.now() - ideatorStart },
+      });
+
+      info("\nGenerated ideas:");
+      for (let i = 0; i < ideatorResult.ideas.length; i++) {
+        const idea = ideatorResult.ideas[i];
+        info(`  ${i + 1}. ${idea.name} — ${idea.description}`);
+      }
+      info("");
+    } catch (error) {
+      if (!(error instanceof CancelledError)) throw error;
+      failStep(`Ideator cancelled: ${error.message}`, { runId: groupId, stage: "ideator" });
     }
-    console.log("");
+    groupUsage.push(...getStageUsage());
 
     // --- Step 2: Vet each idea through the full pipeline ---
+    const runs: RunResult[] = [];
     const packets: DecisionPacket[] = [];
     const reportPaths: string[] = [];
 
     for (let i = 0; i < ideatorResult.ideas.length; i++) {
       const idea = ideatorResult.ideas[i];
-      console.log(`\n--- Vetting idea ${i + 1}/${ideatorResult.ideas.length}: ${idea.name} ---\n`);
+      if (cancelReason()) {
+        warnStep(`Skipped ${ideatorResult.ideas.length - i} idea(s): ${cancelReason()}.`, { runId: groupId });
+        break;
+      }
+      info(`\n--- Vetting idea ${i + 1}/${ideatorResult.ideas.length}: ${idea.name} ---\n`);
 
+      // Each idea keeps its run id across resumes, so finished stages are restored
+      const runId = await checkpoints.step("idea", i, () => newRunId());
       const pipelineOptions: PipelineOptions = {
         idea: `${idea.name}: ${idea.description}`,
         niche: options.niche,
@@ -59,9 +178,21 @@ export async function runBrainstorm(options: BrainstormOptions): Promise<void> {
         save: false, // We handle saving ourselves
         verbose: options.verbose,
         groupId,
+        budget: options.budget,
+        cache: options.cache !== false && !options.record && !options.replay,
+        verifyQuotes: options.verifyQuotes,
+        refereeSamples: options.refereeSamples,
+        convergence: options.convergence,
+        skepticPanel,
+        checkpoint: options.checkpoint,
+        record: options.record,
+        replay: options.replay,
+        runId,
       };
 
-      const packet = await runPipelineCore(pipelineOptions);
+      const run = await runPipelineCore(pipelineOptions);
+      const packet = run.packet;
+      runs.push(run);
       packets.push(packet);
 
       // Save individual results if requested
@@ -74,6 +205,8 @@ export async function runBrainstorm(options: BrainstormOptions): Promise<void> {
         fs.writeFileSync(txtPath, report, "utf-8");
 
         insertRun(packet, txtPath, txtPath, groupId);
+        saveDebugLog(run.debugLog, config.outputDir);
+        run.reportPath = txtPath;
         reportPaths.push(txtPath);
       } else {
         reportPaths.push("");
@@ -83,9 +216,23 @@ export async function runBrainstorm(options: BrainstormOptions): Promise<void> {
     // --- Step 2.5: Pivot Salvage (only if all ideas are NO_GO) ---
     let salvageResult: SalvageResult | undefined;
 
-    if (packets.every(p => p.rubric.decision === "NO_GO")) {
+    // Salvage is optional: skip it when its projected cost (about one Ideator call) would break the budget
+    const salvageBudgetExceeded = options.budget
+      ? checkBudget(
+          options.budget,
+          measureSpend(getSessionUsage(), pricing),
+          estimateCallSpend(getSessionUsage(), ["ideator"], pricing)
+        )
+      : null;
+
+    // A cancelled group never reaches Salvage: its verdicts are incomplete
+    const allNoGo = !cancelReason() && packets.every(p => p.rubric.decision === "NO_GO");
+    if (allNoGo && salvageBudgetExceeded) {
+      warnStep(`Budget: skipped Pivot Salvage — ${salvageBudgetExceeded}.`, { runId: groupId, stage: "budget" });
+    } else if (allNoGo) {
       try {
-        startStep("All ideas got NO_GO — running Pivot Salvage...");
+        startStep("All ideas got NO_GO — running Pivot Salvage...", { runId: groupId, stage: "salvage" });
+        const salvageStart = Date.now();
 
         const salvageIdeas: SalvageIdeaPacket[] = packets.map((packet, i) => ({
           ideaName: ideatorResult.ideas[i].name,
@@ -97,10 +244,13 @@ export async function runBrainstorm(options: BrainstormOptions): Promise<void> {
           competitors: packet.competitors.map(c => c.name),
         }));
 
-        salvageResult = await runSalvage({
-          painPoint: options.painPoint,
-          ideas: salvageIdeas,
-        });
+        resetUsage();
+        salvageResult = await checkpoints.step("salvage", 0, () =>
+          runSalvage({
+            painPoint: options.painPoint,
+            ideas: salvageIdeas,
+          })
+        );
 
         // Re-validate each pivot's estimated scores against kill rules (code enforces, not AI)
         for (const pivot of salvageResult.pivots) {
@@ -128,47 +278,154 @@ export async function runBrainstorm(options: BrainstormOptions): Promise<void> {
             estimatedScores,
             sourcePacket.analysis.wedgeOptions,
             sourcePacket.evidence.length,
-            pivot.estimatedDecision
+            pivot.estimatedDecision,
+            config.rubric
           );
           pivot.estimatedDecision = killResult.decision;
         }
 
-        succeedStep(`Salvage generated ${salvageResult.pivots.length} pivots`);
+        succeedStep(`Salvage generated ${salvageResult.pivots.length} pivots`, {
+          runId: groupId,
+          stage: "salvage",
+          details: { pivots: salvageResult.pivots.length, tokensUsed: getTotalTokens(), durationMs: Date.now() - salvageStart },
+        });
       } catch (error) {
         // Salvage failure is non-fatal — report still generates without salvage section
-        failStep("Pivot Salvage failed (non-fatal, continuing)");
+        failStep(
+          error instanceof CancelledError ? `Pivot Salvage cancelled: ${error.message}` : "Pivot Salvage failed (non-fatal, continuing)",
+          { runId: groupId, stage: "salvage" }
+        );
         if (options.verbose) {
-          console.error("  Salvage error:", error instanceof Error ? error.message : error);
+          info(`  Salvage error: ${error instanceof Error ? error.message : error}`);
         }
       }
+      groupUsage.push(...getStageUsage());
+    }
+
+    const groupCosts = priceUsage(groupUsage, pricing);
+    if (options.save) {
+      insertStageCosts(groupCosts.breakdown, undefined, groupId);
+    }
+
+    stopCassette();
+    if (cassette) {
+      saveCassette(cassettePath, cassette);
     }
 
     // --- Step 3: Generate comparison report ---
     const comparisonReport = generateBrainstormReport(
       options.painPoint,
-      ideatorResult.ideas,
+      ideatorResult.ideas.slice(0, packets.length),
       packets,
       reportPaths,
       salvageResult
     );
 
+    let comparisonPath: string | undefined;
     if (options.save) {
-      const compPath = path.join(config.outputDir, `${groupId}-brainstorm.txt`);
-      fs.writeFileSync(compPath, comparisonReport, "utf-8");
-      console.log(`\n${"=".repeat(60)}`);
-      console.log(`Brainstorm comparison: ${compPath}`);
-      console.log(`Individual reports saved for ${packets.length} ideas (group: ${groupId})`);
-    } else {
-      console.log(`\n${"=".repeat(60)}`);
-      console.log(comparisonReport);
+      comparisonPath = path.join(config.outputDir, `${groupId}-brainstorm.txt`);
+      fs.writeFileSync(comparisonPath, comparisonReport, "utf-8");
+    }
+
+    const stopped = cancelReason();
+    if (checkpointed && !stopped) {
+      completeCheckpointRun(groupId);
+    }
+
+    return {
+      groupId,
+      ideas: ideatorResult.ideas,
+      runs,
+      salvage: salvageResult,
+      comparisonReport,
+      comparisonPath,
+      cassettePath: cassette ? cassettePath : undefined,
+      totalTokens:
+        packets.reduce((sum, p) => sum + p.meta.tokenUsage, 0) +
+        groupCosts.breakdown.reduce((sum, c) => sum + c.inputTokens + c.outputTokens, 0),
+      totalCost: packets.reduce((sum, p) => sum + p.meta.estimatedCost, 0) + groupCosts.totalCost,
+      partial: stopped,
+    };
+  } catch (error) {
+    // The idea whose pipeline failed keeps its debug log
+    const failedLog = takeFailedDebugLog(error);
+    if (error instanceof ConfigError) throw error;
+    if (options.save && failedLog) saveDebugLog(failedLog, config.outputDir);
+    let message = error instanceof Error ? error.message : String(error);
+    if (cassette?.entries.length) {
+      saveCassette(cassettePath, cassette);
+      message += ` (partial cassette saved: ${cassettePath})`;
+    }
+    throw new RunFailedError(message, groupId, checkpointed, { cause: error });
+  } finally {
+    stopCassette();
+    stopCancellable();
+  }
+}
+
+/**
+ * Brainstorm for the CLI: prints the generated ideas, progress and the comparison report.
+ * Ctrl-C stops it; finished ideas are still reported.
+ */
+export async function runBrainstorm(options: BrainstormOptions, output: Pick<CliOutputOptions, "json"> = {}): Promise<void> {
+  const interrupt = interruptSignal();
+  // With --json, stdout carries only the result
+  const log = output.json ? console.error : console.log;
+  try {
+    if (options.replay) {
+      log(`Replaying model responses from ${options.replay}`);
+    }
+    const result = await executeBrainstorm({ ...options, signal: interrupt.signal });
+
+    if (result.cassettePath) {
+      log(`Cassette saved: ${result.cassettePath} (${loadCassette(result.cassettePath).entries.length} calls)`);
+    }
+    log(`\n${"=".repeat(60)}`);
+    if (result.comparisonPath) {
+      log(`Brainstorm comparison: ${result.comparisonPath}`);
+      log(`Individual reports saved for ${result.runs.length} ideas (group: ${result.groupId})`);
+    } else if (!output.json) {
+      log(result.comparisonReport);
+    }
+
+    log(`\nTokens used: ${result.totalTokens.toLocaleString()} (~$${result.totalCost.toFixed(4)})`);
+    if (output.json) {
+      console.log(JSON.stringify(brainstormJson(options.painPoint, result), null, 2));
+    }
+    if (result.partial) {
+      const checkpointed = checkpointsEnabled(options);
+      console.error(`\nPartial brainstorm (${result.partial}).${checkpointed ? ` Continue with: vet resume ${result.groupId}` : ""}`);
+      process.exitCode = 130;
     }
   } catch (error) {
     failStep("Brainstorm failed");
     console.error("\nError:", error instanceof Error ? error.message : error);
+    if (error instanceof RunFailedError && error.resumable) {
+      console.error(`\nIdeas and stages completed so far are saved. Continue with: vet resume ${error.runId}`);
+    }
     process.exit(1);
+  } finally {
+    interrupt.stop();
   }
 }
 
+/**
+ * The group for `vet brainstorm --json`: every idea, each vetted idea's packet and the pivots.
+ */
+function brainstormJson(painPoint: string, result: BrainstormResult) {
+  return {
+    groupId: result.groupId,
+    painPoint,
+    ideas: result.ideas,
+    packets: result.runs.map((run) => run.packet),
+    salvage: result.salvage,
+    comparisonPath: result.comparisonPath,
+    totalTokens: result.totalTokens,
+    totalCost: result.totalCost,
+    partial: result.partial,
+  };
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, Math.round(value)));
 }
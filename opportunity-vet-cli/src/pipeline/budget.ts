@@ -0,0 +1,66 @@
+import type { StageName, StageUsage } from "../providers/index.js";
+import { priceUsage, type PricingTable } from "./cost.js";
+
+export interface BudgetLimits {
+  /** USD */
+  maxCost?: number;
+  /** Input + output tokens */
+  maxTokens?: number;
+}
+
+export interface Spend {
+  cost: number;
+  tokens: number;
+}
+
+export const NO_SPEND: Spend = { cost: 0, tokens: 0 };
+
+export function measureSpend(usage: StageUsage[], pricing: PricingTable): Spend {
+  return {
+    cost: priceUsage(usage, pricing).totalCost,
+    tokens: usage.reduce((sum, u) => sum + u.inputTokens + u.outputTokens, 0),
+  };
+}
+
+/**
+ * Average spend of one call to any of `stages` so far, scaled by `factor`.
+ * Used to project the cost of a stage that has not run yet from similar ones that have.
+ */
+export function estimateCallSpend(
+  usage: StageUsage[],
+  stages: StageName[],
+  pricing: PricingTable,
+  factor: number = 1
+): Spend {
+  const relevant = usage.filter((u) => stages.includes(u.stage));
+  const calls = relevant.reduce((sum, u) => sum + u.calls, 0);
+  if (calls === 0) return NO_SPEND;
+  const spend = measureSpend(relevant, pricing);
+  return {
+    cost: (spend.cost / calls) * factor,
+    tokens: Math.round((spend.tokens / calls) * factor),
+  };
+}
+
+export function addSpend(a: Spend, b: Spend): Spend {
+  return { cost: a.cost + b.cost, tokens: a.tokens + b.tokens };
+}
+
+export function subtractSpend(a: Spend, b: Spend): Spend {
+  return { cost: Math.max(0, a.cost - b.cost), tokens: Math.max(0, a.tokens - b.tokens) };
+}
+
+/**
+ * Returns why spending `projected` on top of `spent` would break the budget, or null if it fits.
+ */
+export function checkBudget(limits: BudgetLimits, spent: Spend, projected: Spend): string | null {
+  const cost = spent.cost + projected.cost;
+  if (limits.maxCost !== undefined && cost > limits.maxCost) {
+    return `projected spend ~$${cost.toFixed(4)} exceeds the $${limits.maxCost} budget (spent so far: $${spent.cost.toFixed(4)})`;
+  }
+  const tokens = spent.tokens + projected.tokens;
+  if (limits.maxTokens !== undefined && tokens > limits.maxTokens) {
+    return `projected ${tokens.toLocaleString()} tokens exceeds the ${limits.maxTokens.toLocaleString()} token budget (used so far: ${spent.tokens.toLocaleString()})`;
+  }
+  return null;
+}
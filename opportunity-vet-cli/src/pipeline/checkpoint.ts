@@ -0,0 +1,83 @@
+import crypto from "node:crypto";
+import { getCheckpoint, putCheckpoint } from "../db/index.js";
+import { getStageUsage, restoreUsage } from "../openai/client.js";
+import type { StageUsage } from "../providers/index.js";
+
+/**
+ * Saves each stage's output under a run (or brainstorm group) id so a failed run can
+ * resume where it stopped. Stages already saved under the id are restored instead of re-run.
+ */
+export interface Checkpointer {
+  id: string;
+  enabled: boolean;
+  /** The saved output of `stage` for `iteration`, or the result of `fn`, saved for next time */
+  step<T>(stage: string, iteration: number, fn: () => T | Promise<T>): Promise<T>;
+  /** Whether `stage` for `iteration` was restored rather than run */
+  restored(stage: string, iteration: number): boolean;
+}
+
+export function newRunId(): string {
+  return crypto.randomUUID().slice(0, 12);
+}
+
+/**
+ * Whether a run (or group) checkpoints its stages: unless `checkpoint` is false, and never
+ * while recording or replaying a cassette.
+ */
+export function checkpointsEnabled(options: { checkpoint?: boolean; record?: boolean; replay?: string }): boolean {
+  return options.checkpoint !== false && !options.record && !options.replay;
+}
+
+/**
+ * Checkpointer backed by the SQLite DB. When disabled, every step runs and nothing is saved.
+ */
+export function createCheckpointer(id: string, enabled: boolean = true): Checkpointer {
+  const restoredSteps = new Set<string>();
+
+  return {
+    id,
+    enabled,
+
+    async step<T>(stage: string, iteration: number, fn: () => T | Promise<T>): Promise<T> {
+      if (!enabled) return fn();
+
+      const saved = getCheckpoint(id, stage, iteration);
+      if (saved) {
+        restoreUsage(saved.usage);
+        restoredSteps.add(`${stage}|${iteration}`);
+        return saved.output as T;
+      }
+
+      const before = getStageUsage();
+      const output = await fn();
+      putCheckpoint(id, stage, iteration, output, usageDelta(before, getStageUsage()));
+      return output;
+    },
+
+    restored(stage, iteration) {
+      return restoredSteps.has(`${stage}|${iteration}`);
+    },
+  };
+}
+
+/**
+ * Usage added between two snapshots of the per-stage totals, omitting unchanged entries.
+ */
+export function usageDelta(before: StageUsage[], after: StageUsage[]): StageUsage[] {
+  const previous = new Map(before.map((u) => [`${u.stage}|${u.model}`, u]));
+  const delta: StageUsage[] = [];
+  for (const u of after) {
+    const p = previous.get(`${u.stage}|${u.model}`);
+    const entry: StageUsage = {
+      stage: u.stage,
+      model: u.model,
+      calls: u.calls - (p?.calls ?? 0),
+      inputTokens: u.inputTokens - (p?.inputTokens ?? 0),
+      cachedInputTokens: u.cachedInputTokens - (p?.cachedInputTokens ?? 0),
+      outputTokens: u.outputTokens - (p?.outputTokens ?? 0),
+      webSearchCalls: u.webSearchCalls - (p?.webSearchCalls ?? 0),
+    };
+    if (entry.calls > 0 || entry.inputTokens > 0 || entry.outputTokens > 0) delta.push(entry);
+  }
+  return delta;
+}
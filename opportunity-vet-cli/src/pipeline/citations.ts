@@ -0,0 +1,31 @@
+import type { EvidenceItem } from "../openai/schemas/scout.zod.js";
+import type { Citation } from "../providers/index.js";
+import { normalizeUrl } from "./dedupe.js";
+
+/** Share of uncited evidence above which the packet carries a warning */
+export const UNCITED_WARNING_RATIO = 0.5;
+
+function citationKey(url: string): string {
+  return normalizeUrl(url).replace(/^[a-z][a-z0-9+.-]*:\/\/(www\.)?/, "");
+}
+
+/**
+ * Mark each evidence item `cited` when its URL matches a citation the web search returned,
+ * ignoring scheme, "www.", query string, fragment and trailing slash.
+ */
+export function markCited(evidence: EvidenceItem[], citations: Citation[]): EvidenceItem[] {
+  const cited = new Set(citations.map((c) => citationKey(c.url)));
+  return evidence.map((e) => ({ ...e, cited: cited.has(citationKey(e.url)) }));
+}
+
+/**
+ * Warning when more than UNCITED_WARNING_RATIO of the checked evidence is uncited, else null.
+ * Evidence that was never checked (no web search ran) is left out.
+ */
+export function uncitedWarning(evidence: EvidenceItem[]): string | null {
+  const checked = evidence.filter((e) => e.cited !== undefined);
+  const uncited = checked.filter((e) => !e.cited).length;
+  if (checked.length === 0 || uncited / checked.length <= UNCITED_WARNING_RATIO) return null;
+  const percent = Math.round((uncited / checked.length) * 100);
+  return `${uncited} of ${checked.length} evidence items (${percent}%) have URLs that no web search citation backs; they may be hallucinated and count for less in evidence strength.`;
+}
@@ -0,0 +1,109 @@
+import type { RubricDraft } from "../openai/schemas/analyst.zod.js";
+import type { StopReason } from "../openai/schemas/packet.zod.js";
+
+/** Upper bound on `depth`, whatever the flag or config says */
+export const MAX_DEPTH = 5;
+
+/**
+ * When another critique iteration is no longer worth it. Each check is off at 0.
+ */
+export interface ConvergenceSettings {
+  /** Stop when an iteration adds fewer new evidence items than this (after dedupe) */
+  minNewEvidence: number;
+  /** Stop when an iteration adds fewer new source domains than this */
+  minNewDomains: number;
+  /** Stop when the Analyst's rubric draft moves by fewer points than this, summed over all scores */
+  minRubricChange: number;
+}
+
+export const DEFAULT_CONVERGENCE: ConvergenceSettings = {
+  minNewEvidence: 1,
+  minNewDomains: 0,
+  minRubricChange: 1,
+};
+
+/** Deduplicated evidence, distinct domains and distinct competitors after an iteration */
+export interface EvidenceGrowth {
+  evidence: number;
+  domains: number;
+  competitors: number;
+}
+
+const RUBRIC_KEYS = [
+  "painIntensity",
+  "frequency",
+  "buyerClarity",
+  "budgetSignal",
+  "switchingCost",
+  "competition",
+  "distributionFeasibility",
+] as const;
+
+export function resolveConvergence(settings: Partial<ConvergenceSettings> = {}): ConvergenceSettings {
+  return {
+    minNewEvidence: settings.minNewEvidence ?? DEFAULT_CONVERGENCE.minNewEvidence,
+    minNewDomains: settings.minNewDomains ?? DEFAULT_CONVERGENCE.minNewDomains,
+    minRubricChange: settings.minRubricChange ?? DEFAULT_CONVERGENCE.minRubricChange,
+  };
+}
+
+/**
+ * A stop reason when the latest Scout iteration added too little after dedupe, else null.
+ * A pass that found a new competitor never stops the loop: the Analyst has yet to see it.
+ */
+export function checkEvidenceGrowth(
+  before: EvidenceGrowth,
+  after: EvidenceGrowth,
+  settings: ConvergenceSettings,
+  iteration: number
+): StopReason | null {
+  const newEvidence = after.evidence - before.evidence;
+  const newDomains = after.domains - before.domains;
+  if (after.competitors > before.competitors) return null;
+  if (settings.minNewEvidence > 0 && newEvidence < settings.minNewEvidence) {
+    return {
+      code: "evidence",
+      message: `Converged at iteration ${iteration}: ${Math.max(newEvidence, 0)} new evidence item(s), fewer than ${settings.minNewEvidence}.`,
+    };
+  }
+  if (settings.minNewDomains > 0 && newDomains < settings.minNewDomains) {
+    return {
+      code: "domains",
+      message: `Converged at iteration ${iteration}: ${Math.max(newDomains, 0)} new source domain(s), fewer than ${settings.minNewDomains}.`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Total absolute change across the rubric draft's scores.
+ */
+export function rubricChange(previous: Omit<RubricDraft, "reasons">, next: Omit<RubricDraft, "reasons">): number {
+  return RUBRIC_KEYS.reduce((sum, key) => sum + Math.abs(next[key] - previous[key]), 0);
+}
+
+/**
+ * A stop reason when the Analyst's rubric draft barely moved since the last iteration, else null.
+ */
+export function checkRubricChange(
+  previous: Omit<RubricDraft, "reasons">,
+  next: Omit<RubricDraft, "reasons">,
+  settings: ConvergenceSettings,
+  iteration: number
+): StopReason | null {
+  if (settings.minRubricChange <= 0) return null;
+  const change = rubricChange(previous, next);
+  if (change >= settings.minRubricChange) return null;
+  return {
+    code: "rubric",
+    message: `Converged at iteration ${iteration}: the Analyst's rubric moved ${change} point(s), fewer than ${settings.minRubricChange}.`,
+  };
+}
+
+/**
+ * Whether the loop ended before `depth` on its own, rather than by budget or cancellation
+ * (which the report and debug log already cover).
+ */
+export function stoppedEarly(reason: StopReason | undefined): reason is StopReason {
+  return reason !== undefined && ["no-queries", "evidence", "domains", "rubric"].includes(reason.code);
+}
@@ -0,0 +1,88 @@
+import fs from "fs-extra";
+import { z } from "zod";
+import type { Config } from "../config.js";
+import type { StageUsage } from "../providers/index.js";
+import type { StageCost } from "../openai/schemas/packet.zod.js";
+
+/**
+ * Prices in USD: tokens per 1M, web search tool calls per 1K.
+ */
+export const ModelPricingSchema = z.object({
+  input: z.number().min(0),
+  cachedInput: z.number().min(0),
+  output: z.number().min(0),
+  webSearchPer1k: z.number().min(0).default(0),
+});
+
+export type ModelPricing = z.output<typeof ModelPricingSchema>;
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Built-in list prices. Override or extend with PRICING_FILE when they change.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10, webSearchPer1k: 30 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6, webSearchPer1k: 25 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8, webSearchPer1k: 30 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6, webSearchPer1k: 25 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4, webSearchPer1k: 25 },
+  "o3": { input: 2, cachedInput: 0.5, output: 8, webSearchPer1k: 10 },
+  "o4-mini": { input: 1.1, cachedInput: 0.275, output: 4.4, webSearchPer1k: 10 },
+};
+
+export function loadPricing(config: Config): PricingTable {
+  if (!config.pricingFile) return DEFAULT_PRICING;
+
+  const raw = fs.readJsonSync(config.pricingFile);
+  const parsed = z.record(ModelPricingSchema).safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid pricing file ${config.pricingFile}: ${parsed.error.message}`);
+  }
+  return { ...DEFAULT_PRICING, ...parsed.data };
+}
+
+/**
+ * Exact model match first, then the longest table key the model name starts with
+ * (so dated snapshots like "gpt-4o-2024-08-06" use "gpt-4o").
+ */
+export function findPricing(model: string, table: PricingTable): ModelPricing | undefined {
+  if (table[model]) return table[model];
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+export interface CostSummary {
+  breakdown: StageCost[];
+  totalCost: number;
+  unpricedModels: string[];
+}
+
+export function priceUsage(usage: StageUsage[], table: PricingTable): CostSummary {
+  const unpriced = new Set<string>();
+  const breakdown = usage.map((u) => {
+    const pricing = findPricing(u.model, table);
+    if (!pricing) {
+      unpriced.add(u.model);
+      return { ...u, cost: 0 };
+    }
+    const uncachedInput = Math.max(0, u.inputTokens - u.cachedInputTokens);
+    const cost =
+      (uncachedInput * pricing.input +
+        u.cachedInputTokens * pricing.cachedInput +
+        u.outputTokens * pricing.output) / 1_000_000 +
+      (u.webSearchCalls * pricing.webSearchPer1k) / 1000;
+    return { ...u, cost: roundCost(cost) };
+  });
+
+  return {
+    breakdown,
+    totalCost: roundCost(breakdown.reduce((sum, s) => sum + s.cost, 0)),
+    unpricedModels: Array.from(unpriced),
+  };
+}
+
+function roundCost(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
@@ -0,0 +1,165 @@
+import path from "node:path";
+import fs from "fs-extra";
+import { insertDebugLog } from "../db/index.js";
+import type {
+  CallLogEntry,
+  PackingLogEntry,
+  RetryLogEntry,
+  ValidationFailure,
+} from "../openai/client.js";
+import type { Consistency, StopReason } from "../openai/schemas/packet.zod.js";
+import { stoppedEarly } from "./convergence.js";
+import { formatSampleDecisions } from "./self-consistency.js";
+
+export interface StepLog {
+  step: string;
+  tokensUsed?: number;
+  durationMs?: number;
+  /** Restored by `vet resume` instead of run */
+  fromCheckpoint?: boolean;
+  [key: string]: unknown;
+}
+
+export interface IterationLog {
+  iteration: number;
+  steps: StepLog[];
+}
+
+/**
+ * Everything a run did, saved as `<runId>.log.json` and in the DB for `vet debug`.
+ */
+export interface DebugLog {
+  runId: string;
+  startedAt: string;
+  completedAt?: string;
+  inputs: Record<string, unknown>;
+  iterations: IterationLog[];
+  /** The Referee step; `skipped` says why it didn't run */
+  referee?: StepLog & { skipped?: string };
+  /** Every JSON-producing call whose output failed schema validation */
+  validationFailures: ValidationFailure[];
+  killRuleOverrides: string[];
+  budgetCutoffs: string[];
+  /** Output mode (structured vs scraped JSON) of every JSON-producing call */
+  calls: CallLogEntry[];
+  /** What each Analyst/Skeptic/Referee prompt kept, summarized or dropped to fit the context budget */
+  packing: PackingLogEntry[];
+  /** Every retried model call: stage, error kind, HTTP status and the wait before the next attempt */
+  retries: RetryLogEntry[];
+  /** Why the run stopped early, for partial packets */
+  partial?: string;
+  /** Why the run failed; a failed run's log ends at the stage that threw and has no completedAt */
+  error?: string;
+  /** Why the critique loop ended */
+  stopReason?: StopReason;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+/**
+ * Write the log to `<outputDir>/<runId>.log.json` and the DB. Returns the file path.
+ */
+export function saveDebugLog(log: DebugLog, outputDir: string): string {
+  fs.ensureDirSync(outputDir);
+  const logPath = path.join(outputDir, `${log.runId}.log.json`);
+  fs.writeJsonSync(logPath, log, { spaces: 2 });
+  insertDebugLog(log.runId, log);
+  return logPath;
+}
+
+const STEP_DETAILS: Record<string, (s: StepLog) => string> = {
+  scout: (s) =>
+    `${s.evidenceCount} evidence, ${s.competitorCount} competitors, ${s.citations} citations` +
+    (s.uncitedEvidence ? `, ${s.uncitedEvidence} uncited` : "") +
+    (s.missedCompetitors
+      ? `, found ${(s.foundCompetitors as string[]).length}/${(s.missedCompetitors as string[]).length} missed competitors`
+      : ""),
+  dedupe: (s) => `${s.before} → ${s.after} items, ${s.uniqueDomains} domains`,
+  verify: (s) => `${s.verified}/${s.checked} quotes found, ${s.unreachable} unreachable`,
+  analyst: (s) => `${s.painThemes} pain themes, ${s.wedgeOptions} wedge options`,
+  skeptic: (s) =>
+    `${s.counterarguments} counterarguments, ${(s.missingQueries as string[] | undefined)?.length ?? 0} follow-up queries` +
+    (s.personas ? ` (panel: ${(s.personas as string[]).join(", ")})` : ""),
+  referee: (s) =>
+    [
+      s.samples ? `${s.samples} samples: ${formatSampleDecisions(s.decisions as Consistency["decisions"])}` : "",
+      s.droppedEvidenceRefs ? `dropped refs to unknown evidence: ${(s.droppedEvidenceRefs as string[]).join(", ")}` : "",
+    ].filter(Boolean).join("; "),
+};
+
+function formatDuration(ms: number | undefined): string {
+  return ms === undefined ? "—" : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatStep(label: string, step: StepLog): string {
+  const details = STEP_DETAILS[step.step]?.(step) ?? "";
+  const restored = step.fromCheckpoint ? " (from checkpoint)" : "";
+  return [
+    `  ${label.padEnd(10)}`,
+    formatDuration(step.durationMs).padStart(7),
+    (step.tokensUsed !== undefined ? `${step.tokensUsed.toLocaleString()} tok` : "").padStart(12),
+    `   ${details}${restored}`,
+  ].join("").trimEnd();
+}
+
+/**
+ * Stage-by-stage timeline of a run for `vet debug`: durations and tokens per step,
+ * then retries, validation failures, kill-rule overrides and budget cut-offs.
+ */
+export function formatDebugTimeline(log: DebugLog): string {
+  const lines: string[] = [];
+  const total =
+    log.completedAt !== undefined ? ` (${formatDuration(Date.parse(log.completedAt) - Date.parse(log.startedAt))})` : "";
+  lines.push(`Run ${log.runId} — started ${log.startedAt.replace("T", " ").slice(0, 19)}${total}`);
+  lines.push(`Tokens: ${log.totalTokens.toLocaleString()} | Cost: ~$${log.estimatedCost.toFixed(4)}`);
+  if (log.partial) lines.push(`Partial: ${log.partial}`);
+  if (log.error) lines.push(`Failed: ${log.error}`);
+
+  for (const iteration of log.iterations) {
+    lines.push("");
+    lines.push(`Iteration ${iteration.iteration}`);
+    for (const step of iteration.steps) {
+      lines.push(formatStep(step.step, step));
+    }
+  }
+
+  if (stoppedEarly(log.stopReason)) {
+    lines.push("");
+    lines.push(`Stopped: ${log.stopReason.message}`);
+  }
+
+  if (log.referee) {
+    lines.push("");
+    lines.push("Verdict");
+    lines.push(log.referee.skipped ? `  referee skipped: ${log.referee.skipped}` : formatStep("referee", log.referee));
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push("");
+    lines.push(`${title} (${items.length})`);
+    for (const item of items) lines.push(`  - ${item}`);
+  };
+
+  section(
+    "Retries",
+    (log.retries ?? []).map(
+      (r) =>
+        `${r.stage} attempt ${r.attempt}: ${r.kind}${r.status ? ` ${r.status}` : ""}, waited ${formatDuration(r.delayMs)}` +
+        `${r.fromHeader ? " (server-directed)" : ""} — ${r.message}`
+    )
+  );
+  section(
+    "Validation failures",
+    (log.validationFailures ?? []).map((v) => `${v.stage} attempt ${v.attempt}: ${truncate(v.error, 200)}`)
+  );
+  section("Kill-rule overrides", log.killRuleOverrides ?? []);
+  section("Budget cut-offs", log.budgetCutoffs ?? []);
+
+  return lines.join("\n");
+}
+
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ");
+  return flat.length > max ? `${flat.slice(0, max - 3)}...` : flat;
+}
@@ -1,3 +1,4 @@
+import crypto from "node:crypto";
 import type { EvidenceItem } from "../openai/schemas/scout.zod.js";
 
 /**
@@ -46,21 +47,26 @@ const LISTICLE_PATTERNS = [
   /best[-_].*[-_]software/i,
 ];
 
-export function getCredibility(url: string): number {
+/**
+ * Credibility tier of a URL's domain. `overrides` (`credibility` in vet.config.json)
+ * add domains or replace the built-in tier of one.
+ */
+export function getCredibility(url: string, overrides: Record<string, number> = {}): number {
+  const tiers = { ...CREDIBILITY_TIERS, ...overrides };
   try {
     const hostname = new URL(url).hostname.replace(/^www\./, "");
 
     // Check exact domain match
-    if (CREDIBILITY_TIERS[hostname]) {
-      return CREDIBILITY_TIERS[hostname];
+    if (tiers[hostname]) {
+      return tiers[hostname];
     }
 
     // Check parent domain (e.g., old.reddit.com → reddit.com)
     const parts = hostname.split(".");
     if (parts.length > 2) {
       const parent = parts.slice(-2).join(".");
-      if (CREDIBILITY_TIERS[parent]) {
-        return CREDIBILITY_TIERS[parent];
+      if (tiers[parent]) {
+        return tiers[parent];
       }
     }
 
@@ -78,7 +84,7 @@ export function getCredibility(url: string): number {
   }
 }
 
-function normalizeUrl(url: string): string {
+export function normalizeUrl(url: string): string {
   try {
     const u = new URL(url);
     return `${u.protocol}//${u.hostname}${u.pathname}`.replace(/\/+$/, "").toLowerCase();
@@ -87,6 +93,14 @@ function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Stable id for an evidence item: dedupe keeps one item per normalized URL, so the same
+ * page keeps its id across iterations and runs ("ev-3f9a2c").
+ */
+export function evidenceId(url: string): string {
+  return `ev-${crypto.createHash("sha256").update(normalizeUrl(url)).digest("hex").slice(0, 6)}`;
+}
+
 function normalizeQuote(quote: string): string {
   return quote.toLowerCase().replace(/\s+/g, " ").trim();
 }
@@ -105,7 +119,7 @@ export interface DedupeResult {
   removedCount: number;
 }
 
-export function dedupeEvidence(evidence: EvidenceItem[]): DedupeResult {
+export function dedupeEvidence(evidence: EvidenceItem[], credibility: Record<string, number> = {}): DedupeResult {
   const seen = new Map<string, EvidenceItem>();
   const seenQuotes = new Set<string>();
   let removedCount = 0;
@@ -138,8 +152,9 @@ export function dedupeEvidence(evidence: EvidenceItem[]): DedupeResult {
 
   // Apply code-computed credibility based on domain
   const withCredibility = deduped.map((item) => ({
+    id: evidenceId(item.url),
     ...item,
-    credibility: getCredibility(item.url),
+    credibility: getCredibility(item.url, credibility),
   }));
 
   const domains = new Set(withCredibility.map((e) => getDomain(e.url)));
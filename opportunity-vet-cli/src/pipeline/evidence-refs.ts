@@ -0,0 +1,64 @@
+import type { EvidenceRefs } from "../openai/schemas/analyst.zod.js";
+import type { EvidenceItem } from "../openai/schemas/scout.zod.js";
+
+export type ClaimKind = keyof EvidenceRefs;
+
+/** How many claims of each kind the refs must line up with */
+export type ClaimCounts = Record<ClaimKind, number>;
+
+const CLAIM_KINDS: ClaimKind[] = ["painThemes", "wedgeOptions", "premortem", "reasons"];
+
+export interface ResolvedEvidenceRefs {
+  refs: EvidenceRefs;
+  /** Cited ids that match no evidence item, each listed once */
+  dropped: string[];
+}
+
+/**
+ * Line a model's evidence refs up with its claims and keep only ids of evidence in the
+ * packet. Lists beyond the claim count are ignored and missing ones cite nothing, so
+ * refs[kind][i] always belongs to claim i.
+ */
+export function resolveEvidenceRefs(
+  refs: EvidenceRefs | undefined,
+  counts: ClaimCounts,
+  evidence: EvidenceItem[]
+): ResolvedEvidenceRefs {
+  const known = new Set(evidence.flatMap((e) => (e.id ? [e.id] : [])));
+  const dropped = new Set<string>();
+  const resolved = {} as EvidenceRefs;
+  for (const kind of CLAIM_KINDS) {
+    resolved[kind] = Array.from({ length: counts[kind] }, (_, i) => {
+      const ids = [...new Set((refs?.[kind][i] ?? []).map((id) => id.trim()))];
+      for (const id of ids) if (!known.has(id)) dropped.add(id);
+      return ids.filter((id) => known.has(id));
+    });
+  }
+  return { refs: resolved, dropped: [...dropped] };
+}
+
+/**
+ * Numbers cited evidence in order of first citation, for report footnotes.
+ */
+export function createFootnotes(evidence: EvidenceItem[]) {
+  const byId = new Map(evidence.flatMap((e) => (e.id ? [[e.id, e] as const] : [])));
+  const numbers = new Map<string, number>();
+  return {
+    /** " [^1][^3]" for a claim's ids, or "" when it cites nothing */
+    cite(ids: string[] = []): string {
+      const marks = ids.flatMap((id) => {
+        if (!byId.has(id)) return [];
+        if (!numbers.has(id)) numbers.set(id, numbers.size + 1);
+        return [`[^${numbers.get(id)}]`];
+      });
+      return marks.length > 0 ? ` ${marks.join("")}` : "";
+    },
+    /** One footnote definition per cited item, in citation order */
+    definitions(): string[] {
+      return Array.from(numbers, ([id, n]) => {
+        const e = byId.get(id)!;
+        return `[^${n}]: "${e.quote}" — [${e.title ?? e.sourceType}](${e.url}) (${id}, credibility: ${e.credibility}/5)`;
+      });
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import type { AnalystResult } from "../openai/schemas/analyst.zod.js";
+import { EvidenceRefsSchema, WedgeOptionSchema, type WedgeOption } from "../openai/schemas/analyst.zod.js";
+import type { RefereeDraft, RefereeRubric } from "../openai/schemas/referee.zod.js";
+
+export const RUBRIC_DIMENSIONS = [
+  "painIntensity",
+  "frequency",
+  "buyerClarity",
+  "budgetSignal",
+  "switchingCost",
+  "competition",
+  "distributionFeasibility",
+] as const;
+
+const DECISIONS = ["GO", "NO_GO", "UNCLEAR"] as const;
+
+export interface NormalizedRefereeDraft {
+  draft: RefereeDraft;
+  /** One human-readable line per field that was defaulted, clamped or replaced */
+  adjustments: string[];
+}
+
+/**
+ * Salvage a Referee response that still failed schema validation after retries.
+ * Scores are clamped to 0-5 or default to 0, the decision defaults to UNCLEAR and
+ * analysis lists fall back to the Analyst's. Every fix is listed in `adjustments`
+ * so the report can show it instead of hiding it.
+ */
+export function normalizeRefereeDraft(raw: unknown, analysis: AnalystResult): NormalizedRefereeDraft {
+  const adjustments: string[] = [];
+  const root = isRecord(raw) ? raw : {};
+  const rubric = isRecord(root.rubric) ? root.rubric : {};
+  const draftAnalysis = isRecord(root.analysis) ? root.analysis : {};
+
+  const scores = {} as Record<(typeof RUBRIC_DIMENSIONS)[number], number>;
+  for (const dim of RUBRIC_DIMENSIONS) {
+    const value = rubric[dim];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      scores[dim] = 0;
+      adjustments.push(
+        value === undefined
+          ? `Referee omitted ${dim}; scored 0 by default.`
+          : `Referee returned a non-numeric ${dim} (${JSON.stringify(value)}); scored 0 by default.`
+      );
+      continue;
+    }
+    const clamped = Math.max(0, Math.min(5, Math.round(value)));
+    if (clamped !== value) {
+      adjustments.push(`Referee scored ${dim} ${value}; clamped to ${clamped}.`);
+    }
+    scores[dim] = clamped;
+  }
+
+  let decision: RefereeRubric["decision"] = "UNCLEAR";
+  if (DECISIONS.includes(rubric.decision as RefereeRubric["decision"])) {
+    decision = rubric.decision as RefereeRubric["decision"];
+  } else {
+    adjustments.push(
+      rubric.decision === undefined
+        ? "Referee omitted decision; defaulted to UNCLEAR."
+        : `Referee returned an invalid decision (${JSON.stringify(rubric.decision)}); defaulted to UNCLEAR.`
+    );
+  }
+
+  let reasons: string[] = [];
+  if (Array.isArray(rubric.reasons)) {
+    reasons = rubric.reasons.map(String);
+  } else {
+    adjustments.push("Referee omitted decision reasons; none recorded.");
+  }
+
+  const stringList = (field: "painThemes" | "premortem" | "nextTests"): string[] => {
+    const value = draftAnalysis[field];
+    if (Array.isArray(value)) return value.map(String);
+    adjustments.push(`Referee omitted analysis.${field}; used the Analyst's.`);
+    return analysis[field];
+  };
+
+  let wedgeOptions: WedgeOption[];
+  if (Array.isArray(draftAnalysis.wedgeOptions)) {
+    wedgeOptions = draftAnalysis.wedgeOptions.flatMap((w) => {
+      const parsed = WedgeOptionSchema.safeParse(w);
+      return parsed.success ? [parsed.data] : [];
+    });
+    const dropped = draftAnalysis.wedgeOptions.length - wedgeOptions.length;
+    if (dropped > 0) {
+      adjustments.push(`Dropped ${dropped} malformed wedge option(s) from the Referee.`);
+    }
+  } else {
+    wedgeOptions = analysis.wedgeOptions;
+    adjustments.push("Referee omitted analysis.wedgeOptions; used the Analyst's.");
+  }
+
+  const evidenceRefs = EvidenceRefsSchema.safeParse(root.evidenceRefs);
+  if (root.evidenceRefs !== undefined && !evidenceRefs.success) {
+    adjustments.push("Dropped the Referee's malformed evidenceRefs; claims cite no evidence.");
+  }
+
+  return {
+    draft: {
+      analysis: {
+        painThemes: stringList("painThemes"),
+        whoPays: typeof draftAnalysis.whoPays === "string" ? draftAnalysis.whoPays : analysis.whoPays,
+        whyNow: typeof draftAnalysis.whyNow === "string" ? draftAnalysis.whyNow : analysis.whyNow,
+        wedgeOptions,
+        premortem: stringList("premortem"),
+        nextTests: stringList("nextTests"),
+      },
+      rubric: { ...scores, decision, reasons },
+      evidenceRefs: evidenceRefs.success ? evidenceRefs.data : undefined,
+    },
+    adjustments,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
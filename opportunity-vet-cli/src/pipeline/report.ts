@@ -1,19 +1,143 @@
-import type { DecisionPacket } from "../openai/schemas/packet.zod.js";
+import type { Consistency, DecisionPacket, Rubric, SkepticPanel } from "../openai/schemas/packet.zod.js";
 import type { Idea } from "../openai/schemas/ideator.zod.js";
 import type { SalvageResult } from "../openai/schemas/salvage.zod.js";
+import { stoppedEarly } from "./convergence.js";
+import { formatSampleDecisions } from "./self-consistency.js";
+import { createFootnotes } from "./evidence-refs.js";
+
+const RUBRIC_ROWS: Array<[keyof Omit<Rubric, "total" | "decision" | "reasons">, string]> = [
+  ["painIntensity", "Pain Intensity"],
+  ["frequency", "Frequency"],
+  ["buyerClarity", "Buyer Clarity"],
+  ["budgetSignal", "Budget Signal"],
+  ["switchingCost", "Switching Cost (ease)"],
+  ["competition", "Competition (openness)"],
+  ["distributionFeasibility", "Distribution Feasibility"],
+  ["evidenceStrength", "Evidence Strength"],
+];
+
+/**
+ * The rubric table. With several Referee samples, each score is their median and the table
+ * adds the samples' range and a confidence per dimension (evidence strength is computed, not sampled).
+ */
+export function formatRubricTable(rubric: Rubric, consistency?: Consistency): string[] {
+  if (!consistency) {
+    return [
+      "| Dimension | Score |",
+      "|---|---|",
+      ...RUBRIC_ROWS.map(([key, label]) => `| ${label} | ${rubric[key]}/5 |`),
+      `| **Total** | **${rubric.total}/40** |`,
+    ];
+  }
+  return [
+    `| Dimension | Score (median of ${consistency.samples}) | Range | Confidence |`,
+    "|---|---|---|---|",
+    ...RUBRIC_ROWS.map(([key, label]) => {
+      const spread = consistency.dimensions[key];
+      if (!spread) return `| ${label} | ${rubric[key]}/5 | — | computed |`;
+      const range = spread.min === spread.max ? `${spread.min}` : `${spread.min}–${spread.max}`;
+      // Code can lower a median afterwards (the "already solved" competition cap)
+      const capped = rubric[key] === spread.median ? "" : ` (capped; median ${spread.median})`;
+      return `| ${label} | ${rubric[key]}/5${capped} | ${range} | ${spread.confidence} |`;
+    }),
+    `| **Total** | **${rubric.total}/40** | | |`,
+  ];
+}
+
+// "Already solved" notes get a section of their own (formatAlreadySolved)
+const OBJECTION_HEADINGS: Partial<Record<SkepticPanel["objections"][number]["kind"], string>> = {
+  counterargument: "Counterarguments",
+  "missed-competitor": "Missed Competitors",
+};
+
+/**
+ * The "Skeptic Objections" section. With a panel, each objection is prefixed with the
+ * personas that raised it and the section opens with every persona's verdict.
+ */
+export function formatSkepticPanel(panel: SkepticPanel): string[] {
+  const lines: string[] = ["## Skeptic Objections", ""];
+  const isPanel = panel.personas.length > 1;
+  if (isPanel) {
+    lines.push(`**Panel:** ${panel.personas.map((p) => `${p.name} (${p.decision})`).join(", ")}`);
+    lines.push("");
+  }
+  for (const [kind, heading] of Object.entries(OBJECTION_HEADINGS)) {
+    const objections = panel.objections.filter((o) => o.kind === kind);
+    if (objections.length === 0) continue;
+    lines.push(`### ${heading}`);
+    lines.push("");
+    lines.push(...objections.map((o) => `- ${attribution(panel, o)}${o.text}`));
+    lines.push("");
+  }
+  return lines;
+}
+
+/**
+ * The "Already Solved" section: existing solutions the Skeptic found, which cap the
+ * competition score, with the cap's reason when it lowered the score. Empty without notes.
+ */
+export function formatAlreadySolved(panel: SkepticPanel, reasons: string[]): string[] {
+  const notes = panel.objections.filter((o) => o.kind === "already-solved");
+  if (notes.length === 0) return [];
+  const cap = reasons.find((r) => r.startsWith("Already solved:"))?.slice("Already solved: ".length);
+  return [
+    "## Already Solved",
+    "",
+    ...(cap ? [`**${cap[0].toUpperCase()}${cap.slice(1)}**`, ""] : []),
+    ...notes.map((o) => `- ${attribution(panel, o)}${o.text}`),
+    "",
+  ];
+}
+
+// "**Investor, Target buyer:** " before an objection when a panel ran, else ""
+function attribution(panel: SkepticPanel, objection: SkepticPanel["objections"][number]): string {
+  if (panel.personas.length <= 1) return "";
+  const names = new Map(panel.personas.map((p) => [p.id, p.name]));
+  return `**${objection.personas.map((id) => names.get(id) ?? id).join(", ")}:** `;
+}
+
+/**
+ * Stages that ran on a model other than the default, grouped by model:
+ * " (skeptic, referee: gpt-4.1; ideator: gpt-4o-mini)". Empty when every stage used the default.
+ */
+export function formatStageModels(defaultModel: string, stageModels: Record<string, string> = {}): string {
+  const byModel = new Map<string, string[]>();
+  for (const [stage, model] of Object.entries(stageModels)) {
+    if (model === defaultModel) continue;
+    if (!byModel.has(model)) byModel.set(model, []);
+    byModel.get(model)!.push(stage);
+  }
+  if (byModel.size === 0) return "";
+  const groups = Array.from(byModel, ([model, stages]) => `${stages.join(", ")}: ${model}`);
+  return ` (${groups.join("; ")})`;
+}
 
 export function generateReport(packet: DecisionPacket): string {
-  const { input, rubric, evidence, competitors, analysis, warnings, meta } = packet;
+  const { input, rubric, evidence, competitors, analysis, warnings, meta, evidenceRefs } = packet;
   const lines: string[] = [];
+  // Claims cite evidence as footnotes, numbered in order of first citation
+  const footnotes = createFootnotes(evidence);
 
   // Header
   lines.push(`# Opportunity Vet: ${input.idea}`);
   lines.push("");
+  if (meta.partial) {
+    lines.push(`> **Partial report:** ${meta.partial}. The Referee did not run; treat the scores as a draft.`);
+    lines.push("");
+  }
   lines.push(`**Date:** ${packet.createdAt.slice(0, 10)}`);
   if (input.niche) lines.push(`**Niche:** ${input.niche}`);
   if (input.customer) lines.push(`**Customer:** ${input.customer}`);
-  lines.push(`**Decision: ${rubric.decision}** | Score: ${rubric.total}/40`);
-  lines.push(`**Model:** ${meta.model} | **Iterations:** ${meta.iterations} | **Tokens:** ${meta.tokenUsage.toLocaleString()}`);
+  const unstable = packet.consistency?.unstable
+    ? ` | **Unstable:** Referee samples split ${formatSampleDecisions(packet.consistency.decisions)}`
+    : "";
+  lines.push(`**Decision: ${rubric.decision}** | Score: ${rubric.total}/40${unstable}`);
+  lines.push(`**Model:** ${meta.provider ? `${meta.provider}/` : ""}${meta.model}${formatStageModels(meta.model, meta.stageModels)} | **Iterations:** ${meta.iterations} | **Tokens:** ${meta.tokenUsage.toLocaleString()} | **Cost:** ~$${meta.estimatedCost.toFixed(4)}`);
+  if (stoppedEarly(meta.stopReason)) lines.push(`**Stopped early:** ${meta.stopReason.message}`);
+  if (meta.searchCache && meta.searchCache.hits > 0) {
+    const oldest = meta.searchCache.oldestHitAt ? ` (oldest cached ${meta.searchCache.oldestHitAt.slice(0, 10)})` : "";
+    lines.push(`**Search cache:** ${meta.searchCache.hits} hit(s), ${meta.searchCache.misses} miss(es)${oldest}`);
+  }
   lines.push("");
 
   // Kill rule overrides
@@ -37,33 +161,44 @@ export function generateReport(packet: DecisionPacket): string {
     lines.push("");
   }
 
+  // Referee adjustments
+  if (meta.refereeAdjustments && meta.refereeAdjustments.length > 0) {
+    lines.push("## Referee Adjustments");
+    lines.push("");
+    for (const a of meta.refereeAdjustments) {
+      lines.push(`- ${a}`);
+    }
+    lines.push("");
+  }
+
   // Rubric table
   lines.push("## Rubric Scores");
   lines.push("");
-  lines.push("| Dimension | Score |");
-  lines.push("|---|---|");
-  lines.push(`| Pain Intensity | ${rubric.painIntensity}/5 |`);
-  lines.push(`| Frequency | ${rubric.frequency}/5 |`);
-  lines.push(`| Buyer Clarity | ${rubric.buyerClarity}/5 |`);
-  lines.push(`| Budget Signal | ${rubric.budgetSignal}/5 |`);
-  lines.push(`| Switching Cost (ease) | ${rubric.switchingCost}/5 |`);
-  lines.push(`| Competition (openness) | ${rubric.competition}/5 |`);
-  lines.push(`| Distribution Feasibility | ${rubric.distributionFeasibility}/5 |`);
-  lines.push(`| Evidence Strength | ${rubric.evidenceStrength}/5 |`);
-  lines.push(`| **Total** | **${rubric.total}/40** |`);
+  lines.push(...formatRubricTable(rubric, packet.consistency));
   lines.push("");
 
   // Decision reasons
-  const nonKillReasons = rubric.reasons.filter((r) => !r.startsWith("Kill rule:"));
+  const nonKillReasons = rubric.reasons
+    .map((r, i) => ({ text: r, refs: evidenceRefs?.reasons[i] }))
+    // Kill rules and the competition cap have sections of their own
+    .filter((r) => !r.text.startsWith("Kill rule:") && !r.text.startsWith("Already solved:"));
   if (nonKillReasons.length > 0) {
     lines.push("### Decision Reasons");
     lines.push("");
     for (const r of nonKillReasons) {
-      lines.push(`- ${r}`);
+      lines.push(`- ${r.text}${footnotes.cite(r.refs)}`);
     }
     lines.push("");
   }
 
+  // Pain themes
+  if (analysis.painThemes.length > 0) {
+    lines.push("## Pain Themes");
+    lines.push("");
+    analysis.painThemes.forEach((theme, i) => lines.push(`- ${theme}${footnotes.cite(evidenceRefs?.painThemes[i])}`));
+    lines.push("");
+  }
+
   // Key evidence
   lines.push("## Key Evidence");
   lines.push("");
@@ -81,7 +216,16 @@ export function generateReport(packet: DecisionPacket): string {
     lines.push("");
     const display = items.slice(0, 10); // Max 10 per theme
     for (const e of display) {
-      lines.push(`- "${e.quote}" — [${e.sourceType}](${e.url}) (credibility: ${e.credibility}/5, ${e.sentiment})`);
+      const uncited = e.cited === false ? ", uncited" : "";
+      const quoteCheck =
+        e.verified === undefined
+          ? ""
+          : e.verified
+            ? ", quote verified"
+            : e.matchScore === undefined
+              ? ", page unreachable"
+              : `, quote not found (match ${e.matchScore})`;
+      lines.push(`- "${e.quote}" — [${e.sourceType}](${e.url}) (credibility: ${e.credibility}/5, ${e.sentiment}${uncited}${quoteCheck})`);
     }
     lines.push("");
   }
@@ -98,6 +242,14 @@ export function generateReport(packet: DecisionPacket): string {
   }
   lines.push("");
 
+  // Existing solutions, then the rest of the Skeptic's objections, attributed to the personas that raised them
+  if (packet.skepticPanel) {
+    lines.push(...formatAlreadySolved(packet.skepticPanel, rubric.reasons));
+  }
+  if (packet.skepticPanel?.objections.some((o) => o.kind !== "already-solved")) {
+    lines.push(...formatSkepticPanel(packet.skepticPanel));
+  }
+
   // Wedge options
   lines.push("## Wedge Options");
   lines.push("");
@@ -105,7 +257,7 @@ export function generateReport(packet: DecisionPacket): string {
     const w = analysis.wedgeOptions[i];
     lines.push(`### ${i + 1}. ${w.wedge}`);
     lines.push("");
-    lines.push(`**Why it works:** ${w.whyWorks}`);
+    lines.push(`**Why it works:** ${w.whyWorks}${footnotes.cite(evidenceRefs?.wedgeOptions[i])}`);
     lines.push("");
     lines.push(`**MVP:** ${w.mvp}`);
     lines.push("");
@@ -114,9 +266,7 @@ export function generateReport(packet: DecisionPacket): string {
   // Premortem
   lines.push("## Premortem");
   lines.push("");
-  for (const p of analysis.premortem) {
-    lines.push(`- ${p}`);
-  }
+  analysis.premortem.forEach((p, i) => lines.push(`- ${p}${footnotes.cite(evidenceRefs?.premortem[i])}`));
   lines.push("");
 
   // Next tests
@@ -127,6 +277,27 @@ export function generateReport(packet: DecisionPacket): string {
   }
   lines.push("");
 
+  // Evidence cited by the claims above
+  const citedEvidence = footnotes.definitions();
+  if (citedEvidence.length > 0) {
+    lines.push("## Cited Evidence");
+    lines.push("");
+    lines.push(...citedEvidence);
+    lines.push("");
+  }
+
+  // Prompt revisions
+  if (meta.prompts && meta.prompts.length > 0) {
+    lines.push("## Prompt Templates");
+    lines.push("");
+    lines.push("| Template | Source | Hash |");
+    lines.push("|---|---|---|");
+    for (const p of meta.prompts) {
+      lines.push(`| ${p.name} | ${p.source} | ${p.hash} |`);
+    }
+    lines.push("");
+  }
+
   return lines.join("\n");
 }
 
@@ -144,6 +315,11 @@ export function generateBrainstormReport(
   lines.push(`**Date:** ${new Date().toISOString().slice(0, 10)}`);
   lines.push(`**Ideas vetted:** ${packets.length}`);
   lines.push("");
+  // A group cancelled during the Ideator has nothing to compare
+  if (packets.length === 0) {
+    lines.push("No ideas were vetted before the brainstorm stopped.");
+    return lines.join("\n");
+  }
 
   // Rank by total score descending
   const ranked = packets
@@ -1,18 +1,86 @@
-import crypto from "node:crypto";
 import path from "node:path";
 import fs from "fs-extra";
 import { loadConfig } from "../config.js";
-import { generateQueries } from "./scout.js";
+import { competitorQueries, generateQueries } from "./scout.js";
 import { dedupeEvidence } from "./dedupe.js";
-import { computeEvidenceStrength, computeTotal, applyKillRules } from "./scoring.js";
+import {
+  MAX_DEPTH,
+  resolveConvergence,
+  checkEvidenceGrowth,
+  checkRubricChange,
+  type ConvergenceSettings,
+  type EvidenceGrowth,
+} from "./convergence.js";
+import {
+  resolvePanel,
+  skepticStage,
+  mergeSkepticResults,
+  type PersonaResult,
+  type SkepticPersona,
+} from "./skeptic-panel.js";
+import { aggregateRefereeSamples, formatSampleDecisions, MAX_REFEREE_SAMPLES } from "./self-consistency.js";
+import { resolveEvidenceRefs } from "./evidence-refs.js";
+import { computeEvidenceStrength, computeTotal, applyKillRules, capCompetition } from "./scoring.js";
 import { generateReport } from "./report.js";
-import { runScout, runAnalyst, runSkeptic, runReferee, getTotalTokens, resetTokenCount } from "../openai/client.js";
-import { insertRun } from "../db/index.js";
-import { DecisionPacketSchema, type DecisionPacket } from "../openai/schemas/packet.zod.js";
+import { loadPricing, priceUsage, type PricingTable } from "./cost.js";
+import {
+  measureSpend,
+  estimateCallSpend,
+  addSpend,
+  subtractSpend,
+  checkBudget,
+  NO_SPEND,
+  type BudgetLimits,
+  type Spend,
+} from "./budget.js";
+import {
+  runScout,
+  runAnalyst,
+  runSkeptic,
+  runReferee,
+  getTotalTokens,
+  resetUsage,
+  getStageUsage,
+  getSessionUsage,
+  resetSessionUsage,
+  getProvider,
+  getCallLog,
+  resetCallLog,
+  getPackingLog,
+  resetPackingLog,
+  getRetryLog,
+  resetRetryLog,
+  getValidationFailures,
+  resetValidationFailures,
+  startRecording,
+  startReplay,
+  stopCassette,
+  ValidationFailedError,
+} from "../openai/client.js";
+import { loadCassette, saveCassette, type Cassette } from "../providers/cassette.js";
+import { getPromptsUsed, resetPromptsUsed } from "../openai/templates.js";
+import { createSearchCache } from "./search-cache.js";
+import { normalizeRefereeDraft } from "./referee.js";
+import { markCited, uncitedWarning } from "./citations.js";
+import { createHttpFetcher, verifyEvidence, quoteVerificationStats, type PageFetcher } from "./verify.js";
+import { checkpointsEnabled, createCheckpointer, newRunId } from "./checkpoint.js";
+import { saveDebugLog, type DebugLog, type IterationLog, type StepLog } from "./debug-log.js";
+import { insertRun, insertCheckpointRun, completeCheckpointRun } from "../db/index.js";
+import {
+  DecisionPacketSchema,
+  type DecisionPacket,
+  type Consistency,
+  type SkepticPanel,
+  type StopReason,
+} from "../openai/schemas/packet.zod.js";
 import type { EvidenceItem, CompetitorItem } from "../openai/schemas/scout.zod.js";
 import type { AnalystResult } from "../openai/schemas/analyst.zod.js";
 import type { SkepticResult } from "../openai/schemas/skeptic.zod.js";
-import { startStep, succeedStep, failStep } from "../utils/spinner.js";
+import type { RefereeDraft } from "../openai/schemas/referee.zod.js";
+import { startStep, updateStep, succeedStep, failStep, warnStep, info } from "../utils/progress.js";
+import { CancelledError, getCancelSignal, startCancellable, interruptSignal, throwIfCancelled } from "../utils/cancel.js";
+import { ConfigError, RunFailedError } from "../errors.js";
+import { decisionExitCode, type Decision } from "../utils/exit-codes.js";
 
 export interface PipelineOptions {
   idea: string;
@@ -23,209 +91,558 @@ export interface PipelineOptions {
   save: boolean;
   verbose: boolean;
   groupId?: string;
+  /** Record every model call to `<runId>.cassette.json` in the output dir */
+  record?: boolean;
+  /** Serve model calls from this cassette file instead of the network */
+  replay?: string;
+  /** Spend ceiling, measured across the whole command (all brainstorm ideas share it) */
+  budget?: BudgetLimits;
+  /** Reuse cached Scout searches (default true; always off while recording or replaying) */
+  cache?: boolean;
+  /** Fetch each evidence page and check its quote; only verified evidence counts toward evidence strength */
+  verifyQuotes?: boolean;
+  /** Sample the Referee this many times (1-9) and score the median; see self-consistency.ts */
+  refereeSamples?: number;
+  /** When to stop iterating before `depth` (defaults: DEFAULT_CONVERGENCE) */
+  convergence?: Partial<ConvergenceSettings>;
+  /**
+   * Skeptic personas to run (defaults to the configured panel). Stored resolved with the
+   * checkpoint, so `vet resume` keeps a `--skeptics` panel and its custom personas.
+   */
+  skepticPanel?: SkepticPersona[];
+  /** Page fetcher for quote verification (defaults to plain HTTP) */
+  fetcher?: PageFetcher;
+  /** Cancel the run after this long and write a partial report (command-level; ignored by brainstorm ideas) */
+  runTimeoutMs?: number;
+  /** Cancel the run when this aborts, with the same partial report (command-level, like `runTimeoutMs`) */
+  signal?: AbortSignal;
+  /**
+   * Save each stage's output to the DB so a failed run can resume (default true; always off
+   * while recording or replaying a cassette)
+   */
+  checkpoint?: boolean;
+  /** Run id to use. Stages already checkpointed under it are restored instead of re-run */
+  runId?: string;
 }
 
-interface IterationLog {
-  iteration: number;
-  steps: Array<{
-    step: string;
-    [key: string]: unknown;
-  }>;
+/**
+ * How the CLI presents a result. Not stored with the checkpoint, so `vet resume` chooses again.
+ */
+export interface CliOutputOptions {
+  /** Print the result as JSON on stdout; every other message goes to stderr */
+  json?: boolean;
+  /** Exit with the decision's code (see DECISION_EXIT_CODES) when it is one of these */
+  failOn?: Decision[];
+}
+
+export interface RunResult {
+  packet: DecisionPacket;
+  debugLog: DebugLog;
+  /** Saved text report, when `save` is set */
+  reportPath?: string;
+  /** Recorded cassette, when `record` is set */
+  cassettePath?: string;
 }
 
+// Debug log of the run in progress, so a run that throws can still save what it did
+let _inFlightLog: DebugLog | null = null;
+
 /**
- * Core pipeline logic that returns a DecisionPacket.
- * Used by both `runPipeline` (single idea) and brainstorm (multiple ideas).
+ * Take the debug log of the run that just threw, closed with the error and every call
+ * made so far. Undefined when no run was in progress.
  */
-export async function runPipelineCore(options: PipelineOptions): Promise<DecisionPacket> {
+export function takeFailedDebugLog(error: unknown): DebugLog | undefined {
+  const log = _inFlightLog;
+  _inFlightLog = null;
+  if (!log) return undefined;
+  log.error = error instanceof Error ? error.message : String(error);
+  log.totalTokens = getTotalTokens();
+  log.estimatedCost = priceUsage(getStageUsage(), loadPricing(loadConfig())).totalCost;
+  log.calls = getCallLog();
+  log.packing = getPackingLog();
+  log.retries = getRetryLog();
+  log.validationFailures = getValidationFailures();
+  return log;
+}
+
+/**
+ * Core pipeline logic that returns a DecisionPacket and its debug log.
+ * Used by both `executePipeline` (single idea) and brainstorm (multiple ideas).
+ */
+export async function runPipelineCore(options: PipelineOptions): Promise<RunResult> {
   const config = loadConfig();
-  const runId = crypto.randomUUID().slice(0, 12);
-  const createdAt = new Date().toISOString();
-  const depth = Math.min(Math.max(options.depth, 1), 2);
-
-  resetTokenCount();
-
-  const debugLog: {
-    runId: string;
-    startedAt: string;
-    completedAt?: string;
-    inputs: PipelineOptions;
-    iterations: IterationLog[];
-    validationFailures: string[];
-    killRuleOverrides: string[];
-    totalTokens: number;
-    estimatedCost: number;
-  } = {
+  const pricing = loadPricing(config);
+  const provider = getProvider();
+  const runId = options.runId ?? newRunId();
+  const checkpoints = createCheckpointer(runId, checkpointsEnabled(options));
+  const depth = Math.min(Math.max(options.depth, 1), MAX_DEPTH);
+  const convergence = resolveConvergence(options.convergence);
+  const personas = options.skepticPanel ?? resolvePanel(config.skepticPanel, config.skepticPersonas);
+  const refereeSamples = Math.min(Math.max(options.refereeSamples ?? 1, 1), MAX_REFEREE_SAMPLES);
+  const searchCache = createSearchCache(
+    config.searchCacheTtlHours,
+    options.cache !== false && !options.record && !options.replay
+  );
+  const fetcher = options.fetcher ?? createHttpFetcher({ signal: getCancelSignal() });
+
+  resetUsage();
+  resetCallLog();
+  resetPackingLog();
+  resetRetryLog();
+  resetValidationFailures();
+  resetPromptsUsed();
+
+  const createdAt = await checkpoints.step("start", 0, () => new Date().toISOString());
+  const fromCheckpoint = (stage: string, iteration: number) =>
+    checkpoints.restored(stage, iteration) ? " (from checkpoint)" : "";
+  // Identifies a step's progress events; `details` goes on the finish event
+  const stepContext = (stage: string, iteration: number, details?: StepLog) => ({ runId, stage, iteration, details });
+  // Duration of a step for the debug log, and whether it was restored rather than run
+  const timing = (stage: string, iteration: number, startedMs: number) => ({
+    durationMs: Date.now() - startedMs,
+    ...(checkpoints.restored(stage, iteration) && { fromCheckpoint: true }),
+  });
+
+  const debugLog: DebugLog = {
     runId,
     startedAt: createdAt,
-    inputs: options,
+    inputs: { ...options, fetcher: undefined, signal: undefined },
     iterations: [],
     validationFailures: [],
     killRuleOverrides: [],
+    budgetCutoffs: [],
+    calls: [],
+    packing: [],
+    retries: [],
     totalTokens: 0,
     estimatedCost: 0,
   };
+  _inFlightLog = debugLog;
 
   let allEvidence: EvidenceItem[] = [];
   let allCompetitors: CompetitorItem[] = [];
   let allQueries: string[] = [];
   let latestAnalysis: AnalystResult | null = null;
   let latestSkeptic: SkepticResult | null = null;
+  let latestPanel: SkepticPanel | undefined;
+  // Set when the budget forces the run to end without a Referee verdict
+  let budgetCutoff: string | null = null;
+  // Set when Ctrl-C or the run timeout stops the run; the packet is built from what was gathered
+  let cancelled: string | null = null;
+  let lastIterationSpend: Spend = NO_SPEND;
+  // Why the critique loop ended; reaching `depth` unless something stops it sooner
+  let stopReason: StopReason = { code: "depth", message: `Reached the maximum of ${depth} iteration(s).` };
+  let growth: EvidenceGrowth = { evidence: 0, domains: 0, competitors: 0 };
+  // The iteration whose steps are still running; a failed run's debug log keeps them
+  let unfinished: IterationLog | null = null;
 
-  for (let iteration = 1; iteration <= depth; iteration++) {
-    const iterLog: IterationLog = { iteration, steps: [] };
-
-    // --- SCOUT ---
-    const queries =
-      iteration === 1
-        ? generateQueries(options)
-        : latestSkeptic?.missingEvidenceQueries ?? [];
-
-    if (queries.length === 0 && iteration > 1) {
-      if (options.verbose) console.log(`\nIteration ${iteration}: No additional queries from Skeptic. Skipping.`);
-      break;
+  try {
+    for (let iteration = 1; iteration <= depth; iteration++) {
+      const iterLog: IterationLog = { iteration, steps: [] };
+      unfinished = iterLog;
+
+      // --- SCOUT ---
+      // Later iterations search the Skeptic's evidence gaps and the competitors it says were missed
+      const missed = iteration === 1
+        ? { names: [], queries: [] }
+        : competitorQueries(latestSkeptic?.missedCompetitors ?? [], allCompetitors);
+      const queries =
+        iteration === 1
+          ? generateQueries(options)
+          : [...(latestSkeptic?.missingEvidenceQueries ?? []), ...missed.queries];
+
+      if (queries.length === 0 && iteration > 1) {
+        if (options.verbose) info(`\nIteration ${iteration}: No additional queries from Skeptic. Skipping.`);
+        stopReason = {
+          code: "no-queries",
+          message: `Stopped after iteration ${iteration - 1}: the Skeptic asked for no follow-up queries and named no new competitors.`,
+        };
+        break;
+      }
+
+      // --- BUDGET: another iteration must leave room for the Referee ---
+      if (options.budget) {
+        const spent = measureSpend(getSessionUsage(), pricing);
+        const projected =
+          iteration === 1 ? NO_SPEND : addSpend(lastIterationSpend, estimateRefereeSpend(pricing, refereeSamples));
+        const exceeded = checkBudget(options.budget, spent, projected);
+        if (exceeded && iteration === 1) {
+          budgetCutoff = `Budget exhausted before research started: ${exceeded}.`;
+          stopReason = { code: "budget", message: budgetCutoff };
+          break;
+        }
+        if (exceeded) {
+          const note = `Skipped critique iteration ${iteration}: ${exceeded}.`;
+          debugLog.budgetCutoffs.push(note);
+          warnStep(`Budget: ${note}`, { runId, stage: "budget", iteration });
+          stopReason = { code: "budget", message: note };
+          break;
+        }
+      }
+      const iterationStart = measureSpend(getStageUsage(), pricing);
+      const endIteration = () => {
+        debugLog.iterations.push(iterLog);
+        unfinished = null;
+        lastIterationSpend = subtractSpend(measureSpend(getStageUsage(), pricing), iterationStart);
+      };
+
+      allQueries.push(...queries);
+
+      startStep(`Searching for evidence (Scout, iteration ${iteration})...`, stepContext("scout", iteration));
+      const tokensBefore = getTotalTokens();
+      const scoutStart = Date.now();
+      const scoutResult = await checkpoints.step("scout", iteration, () =>
+        runScout({
+          idea: options.idea,
+          niche: options.niche,
+          customer: options.customer,
+          constraints: options.constraints,
+          queries,
+          competitorsToResearch: missed.names,
+          searchCache,
+        })
+      );
+
+      // Only a real web search returns citations to check evidence URLs against
+      const scoutEvidence: EvidenceItem[] = provider.supportsWebSearch
+        ? markCited(scoutResult.evidence, scoutResult.citations)
+        : scoutResult.evidence;
+
+      const scoutStep: StepLog = {
+        step: "scout",
+        queries,
+        evidenceCount: scoutResult.evidence.length,
+        citations: scoutResult.citations.length,
+        uncitedEvidence: scoutEvidence.filter((e) => e.cited === false).length,
+        competitorCount: scoutResult.competitors.length,
+        ...(missed.names.length > 0 && {
+          missedCompetitors: missed.names,
+          foundCompetitors: missed.names.filter((name) =>
+            scoutResult.competitors.some((c) => c.name.toLowerCase().trim() === name.toLowerCase())
+          ),
+        }),
+        tokensUsed: getTotalTokens() - tokensBefore,
+        ...timing("scout", iteration, scoutStart),
+      };
+      iterLog.steps.push(scoutStep);
+      succeedStep(
+        `Scout found ${scoutResult.evidence.length} evidence items, ${scoutResult.competitors.length} competitors${fromCheckpoint("scout", iteration)}`,
+        stepContext("scout", iteration, scoutStep)
+      );
+
+      if (options.verbose) {
+        info(`  Evidence: ${scoutResult.evidence.length} items`);
+        info(`  Competitors: ${scoutResult.competitors.length} items`);
+      }
+
+      // Merge evidence and competitors
+      allEvidence.push(...scoutEvidence);
+      allCompetitors.push(...scoutResult.competitors);
+
+      // --- DEDUPE ---
+      startStep(`Deduplicating evidence...`, stepContext("dedupe", iteration));
+      const dedupeStart = Date.now();
+      const dedupeResult = await checkpoints.step("dedupe", iteration, () => dedupeEvidence(allEvidence, config.credibility));
+      allEvidence = dedupeResult.evidence;
+
+      const dedupeStep: StepLog = {
+        step: "dedupe",
+        before: allEvidence.length + dedupeResult.removedCount,
+        after: allEvidence.length,
+        uniqueDomains: dedupeResult.uniqueDomains,
+        ...timing("dedupe", iteration, dedupeStart),
+      };
+      iterLog.steps.push(dedupeStep);
+      succeedStep(
+        `Deduplication: ${allEvidence.length} items, ${dedupeResult.uniqueDomains} domains (removed ${dedupeResult.removedCount})`,
+        stepContext("dedupe", iteration, dedupeStep)
+      );
+
+      // --- QUOTE VERIFICATION (optional) ---
+      if (options.verifyQuotes) {
+        startStep(`Verifying quotes against their pages...`, stepContext("verify", iteration));
+        const evidenceToVerify = allEvidence;
+        const verifyStart = Date.now();
+        allEvidence = await checkpoints.step("verify", iteration, async () => {
+          const verified = await verifyEvidence(evidenceToVerify, fetcher);
+          // Pages aborted by a cancellation would otherwise be saved as unreachable
+          throwIfCancelled();
+          return verified;
+        });
+        const stats = quoteVerificationStats(allEvidence);
+        const unreachable = stats.unreachable > 0 ? `, ${stats.unreachable} pages unreachable` : "";
+        const verifyStep: StepLog = { step: "verify", ...stats, ...timing("verify", iteration, verifyStart) };
+        iterLog.steps.push(verifyStep);
+        succeedStep(
+          `Quote verification: ${stats.verified}/${stats.checked} quotes found${unreachable}${fromCheckpoint("verify", iteration)}`,
+          stepContext("verify", iteration, verifyStep)
+        );
+      }
+
+      // Dedupe competitors by name
+      const compMap = new Map<string, CompetitorItem>();
+      for (const c of allCompetitors) {
+        const key = c.name.toLowerCase().trim();
+        if (!compMap.has(key)) compMap.set(key, c);
+      }
+      allCompetitors = Array.from(compMap.values());
+
+      // --- CONVERGENCE: a Scout pass that found little new leaves the analysis where it was ---
+      const newGrowth = {
+        evidence: allEvidence.length,
+        domains: dedupeResult.uniqueDomains,
+        competitors: allCompetitors.length,
+      };
+      const evidenceStop = iteration > 1 ? checkEvidenceGrowth(growth, newGrowth, convergence, iteration) : null;
+      growth = newGrowth;
+      if (evidenceStop) {
+        if (options.verbose) info(`\n${evidenceStop.message}`);
+        stopReason = evidenceStop;
+        endIteration();
+        break;
+      }
+
+      // --- ANALYST ---
+      startStep(`Analyzing opportunity (Analyst)...`, stepContext("analyst", iteration));
+      const analystTokensBefore = getTotalTokens();
+      const analystStart = Date.now();
+      const analysis = await checkpoints.step("analyst", iteration, () =>
+        runAnalyst({
+          idea: options.idea,
+          niche: options.niche,
+          customer: options.customer,
+          constraints: options.constraints,
+          evidence: allEvidence,
+          competitors: allCompetitors,
+        })
+      );
+      const previousAnalysis = latestAnalysis;
+      latestAnalysis = analysis;
+
+      const analystStep: StepLog = {
+        step: "analyst",
+        painThemes: analysis.painThemes.length,
+        wedgeOptions: analysis.wedgeOptions.length,
+        tokensUsed: getTotalTokens() - analystTokensBefore,
+        ...timing("analyst", iteration, analystStart),
+      };
+      iterLog.steps.push(analystStep);
+      succeedStep(
+        `Analyst: ${analysis.painThemes.length} pain themes, ${analysis.wedgeOptions.length} wedge options${fromCheckpoint("analyst", iteration)}`,
+        stepContext("analyst", iteration, analystStep)
+      );
+
+      const rubricStop = previousAnalysis
+        ? checkRubricChange(previousAnalysis.rubricDraft, analysis.rubricDraft, convergence, iteration)
+        : null;
+      if (rubricStop) {
+        if (options.verbose) info(`\n${rubricStop.message}`);
+        stopReason = rubricStop;
+        endIteration();
+        break;
+      }
+
+      // --- SKEPTIC (only on non-final iteration, or if depth=1 then also run) ---
+      if (iteration < depth || depth === 1) {
+        const panelLabel = personas.length > 1 ? `Skeptic panel of ${personas.length}` : "Skeptic";
+        startStep(`Red-teaming the opportunity (${panelLabel})...`, stepContext("skeptic", iteration));
+        const skepticTokensBefore = getTotalTokens();
+        const skepticStart = Date.now();
+        const personaResults: PersonaResult[] = [];
+        for (const [index, persona] of personas.entries()) {
+          if (personas.length > 1) {
+            updateStep(`Red-teaming the opportunity (${persona.name}, ${index + 1}/${personas.length})...`);
+          }
+          const result = await checkpoints.step(skepticStage(persona), iteration, () =>
+            runSkeptic({
+              idea: options.idea,
+              niche: options.niche,
+              evidence: allEvidence,
+              competitors: allCompetitors,
+              analysis,
+              persona,
+            })
+          );
+          personaResults.push({ persona, result });
+        }
+        const merged = mergeSkepticResults(personaResults);
+        latestSkeptic = merged.skeptic;
+        latestPanel = merged.panel;
+
+        const restored = personas.every((p) => checkpoints.restored(skepticStage(p), iteration));
+        const skepticStep: StepLog = {
+          step: "skeptic",
+          ...(personas.length > 1 && { personas: personas.map((p) => p.id) }),
+          counterarguments: latestSkeptic.counterarguments.length,
+          missingQueries: latestSkeptic.missingEvidenceQueries,
+          tokensUsed: getTotalTokens() - skepticTokensBefore,
+          durationMs: Date.now() - skepticStart,
+          ...(restored && { fromCheckpoint: true }),
+        };
+        iterLog.steps.push(skepticStep);
+        succeedStep(
+          `${panelLabel}: ${latestSkeptic.counterarguments.length} counterarguments, ${latestSkeptic.missingEvidenceQueries.length} follow-up queries${restored ? " (from checkpoint)" : ""}`,
+          stepContext("skeptic", iteration, skepticStep)
+        );
+      }
+
+      endIteration();
     }
-
-    allQueries.push(...queries);
-
-    startStep(`Searching for evidence (Scout, iteration ${iteration})...`);
-    const tokensBefore = getTotalTokens();
-    const scoutResult = await runScout({
-      idea: options.idea,
-      niche: options.niche,
-      customer: options.customer,
-      constraints: options.constraints,
-      queries,
-    });
-    succeedStep(`Scout found ${scoutResult.evidence.length} evidence items, ${scoutResult.competitors.length} competitors`);
-
-    iterLog.steps.push({
-      step: "scout",
-      queries,
-      evidenceCount: scoutResult.evidence.length,
-      competitorCount: scoutResult.competitors.length,
-      tokensUsed: getTotalTokens() - tokensBefore,
-    });
-
-    if (options.verbose) {
-      console.log(`  Evidence: ${scoutResult.evidence.length} items`);
-      console.log(`  Competitors: ${scoutResult.competitors.length} items`);
+  } catch (err) {
+    if (!(err instanceof CancelledError)) {
+      if (unfinished && unfinished.steps.length > 0) debugLog.iterations.push(unfinished);
+      throw err;
     }
+    cancelled = err.message;
+    stopReason = { code: "cancelled", message: cancelled };
+    failStep(`Cancelled: ${cancelled}`, { runId });
+  }
+  debugLog.stopReason = stopReason;
 
-    // Merge evidence and competitors
-    allEvidence.push(...scoutResult.evidence);
-    allCompetitors.push(...scoutResult.competitors);
-
-    // --- DEDUPE ---
-    startStep(`Deduplicating evidence...`);
-    const dedupeResult = dedupeEvidence(allEvidence);
-    allEvidence = dedupeResult.evidence;
-    succeedStep(`Deduplication: ${allEvidence.length} items, ${dedupeResult.uniqueDomains} domains (removed ${dedupeResult.removedCount})`);
-
-    iterLog.steps.push({
-      step: "dedupe",
-      before: allEvidence.length + dedupeResult.removedCount,
-      after: allEvidence.length,
-      uniqueDomains: dedupeResult.uniqueDomains,
-    });
-
-    // Dedupe competitors by name
-    const compMap = new Map<string, CompetitorItem>();
-    for (const c of allCompetitors) {
-      const key = c.name.toLowerCase().trim();
-      if (!compMap.has(key)) compMap.set(key, c);
+  if (options.budget && !budgetCutoff && !cancelled) {
+    const exceeded = checkBudget(options.budget, measureSpend(getSessionUsage(), pricing), estimateRefereeSpend(pricing, refereeSamples));
+    if (exceeded) {
+      budgetCutoff = `Stopped before the Referee: ${exceeded}.`;
     }
-    allCompetitors = Array.from(compMap.values());
-
-    // --- ANALYST ---
-    startStep(`Analyzing opportunity (Analyst)...`);
-    const analystTokensBefore = getTotalTokens();
-    latestAnalysis = await runAnalyst({
-      idea: options.idea,
-      niche: options.niche,
-      customer: options.customer,
-      constraints: options.constraints,
-      evidence: allEvidence,
-      competitors: allCompetitors,
-    });
-    succeedStep(`Analyst: ${latestAnalysis.painThemes.length} pain themes, ${latestAnalysis.wedgeOptions.length} wedge options`);
-
-    iterLog.steps.push({
-      step: "analyst",
-      painThemes: latestAnalysis.painThemes.length,
-      wedgeOptions: latestAnalysis.wedgeOptions.length,
-      tokensUsed: getTotalTokens() - analystTokensBefore,
-    });
-
-    // --- SKEPTIC (only on non-final iteration, or if depth=1 then also run) ---
-    if (iteration < depth || depth === 1) {
-      startStep(`Red-teaming the opportunity (Skeptic)...`);
-      const skepticTokensBefore = getTotalTokens();
-      latestSkeptic = await runSkeptic({
-        idea: options.idea,
-        niche: options.niche,
-        evidence: allEvidence,
-        competitors: allCompetitors,
-        analysis: latestAnalysis,
-      });
-      succeedStep(`Skeptic: ${latestSkeptic.counterarguments.length} counterarguments, ${latestSkeptic.missingEvidenceQueries.length} follow-up queries`);
+  }
 
-      iterLog.steps.push({
-        step: "skeptic",
-        counterarguments: latestSkeptic.counterarguments.length,
-        missingQueries: latestSkeptic.missingEvidenceQueries,
-        tokensUsed: getTotalTokens() - skepticTokensBefore,
+  // --- REFEREE ---
+  const evidenceStrength = computeEvidenceStrength(allEvidence, { verifiedOnly: options.verifyQuotes });
+  const quoteVerification = options.verifyQuotes ? quoteVerificationStats(allEvidence) : undefined;
+  const baseAnalysis: AnalystResult = latestAnalysis ?? EMPTY_ANALYSIS;
+
+  let refereeDraft: RefereeDraft | undefined;
+  let refereeAdjustments: string[] = [];
+  let consistency: Consistency | undefined;
+  if (budgetCutoff) {
+    debugLog.budgetCutoffs.push(budgetCutoff);
+    warnStep(`Budget: ${budgetCutoff}`, { runId, stage: "budget" });
+  } else if (!cancelled) {
+    startStep(`Assembling Decision Packet (Referee)...`, stepContext("referee", 0));
+    const refereeTokensBefore = getTotalTokens();
+    const refereeStart = Date.now();
+    // Each sample is checkpointed on its own; the first keeps the original stage name
+    const sampleReferee = (sample: number) =>
+      checkpoints.step(sample === 1 ? "referee" : `referee:${sample}`, 0, async () => {
+        try {
+          const draft = await runReferee({
+            idea: options.idea,
+            niche: options.niche,
+            customer: options.customer,
+            constraints: options.constraints,
+            evidence: allEvidence,
+            competitors: allCompetitors,
+            analysis: latestAnalysis!,
+            skeptic: latestSkeptic!,
+            evidenceStrength,
+          });
+          return { draft, adjustments: [] as string[] };
+        } catch (err) {
+          // A Referee that answered with JSON but never matched the schema is salvaged
+          // field by field; every default or clamp is surfaced in the report
+          if (!(err instanceof ValidationFailedError) || typeof err.lastOutput !== "object" || err.lastOutput === null) {
+            throw err;
+          }
+          return normalizeRefereeDraft(err.lastOutput, baseAnalysis);
+        }
       });
+    try {
+      const samples: Array<{ draft: RefereeDraft; adjustments: string[] }> = [];
+      for (let sample = 1; sample <= refereeSamples; sample++) {
+        if (refereeSamples > 1) updateStep(`Assembling Decision Packet (Referee, sample ${sample}/${refereeSamples})...`);
+        samples.push(await sampleReferee(sample));
+      }
+      if (samples.length === 1) {
+        ({ draft: refereeDraft, adjustments: refereeAdjustments } = samples[0]);
+      } else {
+        ({ draft: refereeDraft, consistency } = aggregateRefereeSamples(samples.map((s) => s.draft)));
+        refereeAdjustments = samples.flatMap((s, i) => s.adjustments.map((a) => `Sample ${i + 1}: ${a}`));
+      }
+      debugLog.referee = {
+        step: "referee",
+        ...(consistency && { samples: consistency.samples, decisions: consistency.decisions }),
+        tokensUsed: getTotalTokens() - refereeTokensBefore,
+        ...timing("referee", 0, refereeStart),
+      };
+    } catch (err) {
+      if (!(err instanceof CancelledError)) throw err;
+      cancelled = err.message;
+      failStep(`Cancelled: ${cancelled}`, stepContext("referee", 0));
     }
-
-    debugLog.iterations.push(iterLog);
   }
-
-  // --- REFEREE ---
-  startStep(`Assembling Decision Packet (Referee)...`);
-  const evidenceStrength = computeEvidenceStrength(allEvidence);
-
-  const refereeTokensBefore = getTotalTokens();
-  const refereeDraft = await runReferee({
-    idea: options.idea,
-    niche: options.niche,
-    customer: options.customer,
-    constraints: options.constraints,
-    evidence: allEvidence,
-    competitors: allCompetitors,
-    analysis: latestAnalysis!,
-    skeptic: latestSkeptic!,
-    evidenceStrength,
-  });
+  if (budgetCutoff || cancelled) {
+    debugLog.referee = { step: "referee", skipped: cancelled ?? budgetCutoff! };
+  }
+  if (!refereeDraft) {
+    // Fall back to the Analyst's draft; the decision is forced to UNCLEAR below
+    refereeDraft = analystDraft(baseAnalysis);
+    startStep(`Assembling Decision Packet from the Analyst draft (no Referee)...`, stepContext("referee", 0));
+  }
 
   // Assemble final packet from referee draft + code-enforced values
-  const draftRubric = (refereeDraft.rubric as Record<string, unknown>) ?? {};
-  const draftAnalysis = (refereeDraft.analysis as Record<string, unknown>) ?? {};
+  const draftRubric = refereeDraft.rubric;
+  const draftAnalysis = refereeDraft.analysis;
+
+  // Existing solutions the Skeptic found cap competition before kill rules see it
+  const competitionCap = capCompetition(
+    draftRubric.competition,
+    latestSkeptic?.alreadySolvedNotes.length ?? 0,
+    config.rubric.alreadySolvedPenalty
+  );
 
   const rubricScores = {
-    painIntensity: clampScore(draftRubric.painIntensity),
-    frequency: clampScore(draftRubric.frequency),
-    buyerClarity: clampScore(draftRubric.buyerClarity),
-    budgetSignal: clampScore(draftRubric.budgetSignal),
-    switchingCost: clampScore(draftRubric.switchingCost),
-    competition: clampScore(draftRubric.competition),
-    distributionFeasibility: clampScore(draftRubric.distributionFeasibility),
+    painIntensity: draftRubric.painIntensity,
+    frequency: draftRubric.frequency,
+    buyerClarity: draftRubric.buyerClarity,
+    budgetSignal: draftRubric.budgetSignal,
+    switchingCost: draftRubric.switchingCost,
+    competition: competitionCap.competition,
+    distributionFeasibility: draftRubric.distributionFeasibility,
     evidenceStrength, // code-computed, always override
   };
 
   const total = computeTotal(rubricScores, evidenceStrength);
-  const draftDecision = String(draftRubric.decision ?? "UNCLEAR") as "GO" | "NO_GO" | "UNCLEAR";
-  const draftReasons = Array.isArray(draftRubric.reasons) ? draftRubric.reasons.map(String) : [];
-
-  // Apply kill rules
-  const killResult = applyKillRules(
-    rubricScores,
-    latestAnalysis!.wedgeOptions,
-    allEvidence.length,
-    draftDecision
-  );
+  const draftDecision = draftRubric.decision;
+  const draftReasons = draftRubric.reasons;
+
+  // Apply kill rules (a budget cut-off or cancellation is always UNCLEAR: the Referee never weighed in)
+  const killResult = budgetCutoff || cancelled
+    ? { decision: "UNCLEAR" as const, overridden: false, overrideReasons: [] }
+    : applyKillRules(rubricScores, baseAnalysis.wedgeOptions, allEvidence.length, draftDecision, config.rubric);
 
   const warnings: string[] = [];
+  if (cancelled) {
+    warnings.push(
+      `Partial report: ${cancelled}. The rubric is the Analyst's draft and was not refereed; evidence covers only the searches that finished.`
+    );
+  }
+  if (budgetCutoff) {
+    warnings.push(`Budget: ${budgetCutoff} The rubric is the Analyst's draft and was not refereed.`);
+  }
+  for (const note of debugLog.budgetCutoffs.filter((n) => n !== budgetCutoff)) {
+    warnings.push(`Budget: ${note}`);
+  }
+  if (consistency?.unstable) {
+    warnings.push(
+      `Unstable decision: the ${consistency.samples} Referee samples disagreed (${formatSampleDecisions(consistency.decisions)}); the rubric is their median and the decision their majority.`
+    );
+  }
+  if (refereeAdjustments.length > 0) {
+    warnings.push(`Referee output failed validation; ${refereeAdjustments.length} field(s) were defaulted or clamped (see Referee Adjustments).`);
+  }
+  if (!provider.supportsWebSearch) {
+    warnings.push(`Provider "${provider.name}" has no web search; evidence was recalled from model knowledge and is unverified.`);
+  }
+  if (quoteVerification && quoteVerification.verified < quoteVerification.checked) {
+    const missing = quoteVerification.checked - quoteVerification.verified;
+    warnings.push(
+      `${missing} of ${quoteVerification.checked} quotes were not found on their pages (${quoteVerification.unreachable} unreachable); only verified evidence counts toward evidence strength.`
+    );
+  }
+  const uncited = uncitedWarning(allEvidence);
+  if (uncited) {
+    warnings.push(uncited);
+  }
   if (allEvidence.length < 10) {
     warnings.push(`Evidence count (${allEvidence.length}) below target of 10.`);
   }
@@ -237,16 +654,47 @@ export async function runPipelineCore(options: PipelineOptions): Promise<Decisio
     warnings.push(`Domain diversity (${domains.size}) below minimum of 3.`);
   }
 
-  const finalReasons = killResult.overridden
-    ? [...killResult.overrideReasons, ...draftReasons]
-    : draftReasons;
+  // Reasons added in code come before the Referee's
+  // (the cap's reason stays on partial and budget-cut runs, which still use the capped score)
+  const capReasons = competitionCap.reason ? [competitionCap.reason] : [];
+  const codeReasons = [...(killResult.overridden ? killResult.overrideReasons : []), ...capReasons];
+  const finalReasons = cancelled
+    ? [`Cancelled: ${cancelled}.`, ...capReasons]
+    : budgetCutoff
+    ? [`Budget: ${budgetCutoff}`, ...capReasons]
+    : [...codeReasons, ...draftReasons];
 
   if (killResult.overridden) {
     debugLog.killRuleOverrides.push(...killResult.overrideReasons);
   }
 
+  // Cited ids must name evidence in the packet; reasons added in code cite nothing
+  const { refs: draftRefs, dropped: droppedRefs } = resolveEvidenceRefs(
+    refereeDraft.evidenceRefs,
+    {
+      painThemes: draftAnalysis.painThemes.length,
+      wedgeOptions: draftAnalysis.wedgeOptions.length,
+      premortem: draftAnalysis.premortem.length,
+      reasons: draftReasons.length,
+    },
+    allEvidence
+  );
+  const evidenceRefs = {
+    ...draftRefs,
+    reasons: cancelled || budgetCutoff
+      ? finalReasons.map(() => [])
+      : [...codeReasons.map(() => []), ...draftRefs.reasons],
+  };
+  if (droppedRefs.length > 0 && debugLog.referee) {
+    debugLog.referee.droppedEvidenceRefs = droppedRefs;
+  }
+
   const totalTokens = getTotalTokens();
-  const estimatedCost = parseFloat((totalTokens / 1000 * 0.01).toFixed(4));
+  const costs = priceUsage(getStageUsage(), pricing);
+  const estimatedCost = costs.totalCost;
+  if (costs.unpricedModels.length > 0) {
+    warnings.push(`No pricing configured for model(s) ${costs.unpricedModels.join(", ")}; their cost is counted as $0.`);
+  }
 
   const packet: DecisionPacket = {
     runId,
@@ -260,12 +708,12 @@ export async function runPipelineCore(options: PipelineOptions): Promise<Decisio
     evidence: allEvidence,
     competitors: allCompetitors,
     analysis: {
-      painThemes: toStringArray(draftAnalysis.painThemes) ?? latestAnalysis!.painThemes,
-      whoPays: String(draftAnalysis.whoPays ?? latestAnalysis!.whoPays ?? ""),
-      whyNow: String(draftAnalysis.whyNow ?? latestAnalysis!.whyNow ?? ""),
-      wedgeOptions: (Array.isArray(draftAnalysis.wedgeOptions) ? draftAnalysis.wedgeOptions : latestAnalysis!.wedgeOptions) as DecisionPacket["analysis"]["wedgeOptions"],
-      premortem: toStringArray(draftAnalysis.premortem) ?? latestAnalysis!.premortem,
-      nextTests: toStringArray(draftAnalysis.nextTests) ?? latestAnalysis!.nextTests,
+      painThemes: draftAnalysis.painThemes,
+      whoPays: draftAnalysis.whoPays ?? baseAnalysis.whoPays ?? "",
+      whyNow: draftAnalysis.whyNow ?? baseAnalysis.whyNow ?? "",
+      wedgeOptions: draftAnalysis.wedgeOptions,
+      premortem: draftAnalysis.premortem,
+      nextTests: draftAnalysis.nextTests,
     },
     rubric: {
       ...rubricScores,
@@ -273,76 +721,214 @@ export async function runPipelineCore(options: PipelineOptions): Promise<Decisio
       decision: killResult.decision,
       reasons: finalReasons,
     },
+    evidenceRefs,
+    consistency,
+    skepticPanel: latestPanel,
     warnings,
     meta: {
       queries: allQueries,
-      model: config.openaiModel,
+      provider: provider.name,
+      model: provider.model,
       iterations: debugLog.iterations.length,
       tokenUsage: totalTokens,
       estimatedCost,
+      costBreakdown: costs.breakdown,
+      prompts: getPromptsUsed(),
+      stageModels: Object.fromEntries(costs.breakdown.map((c) => [c.stage, c.model])),
+      searchCache: searchCache.stats(),
+      quoteVerification,
+      refereeAdjustments: refereeAdjustments.length > 0 ? refereeAdjustments : undefined,
+      partial: cancelled ?? undefined,
+      stopReason,
     },
   };
 
   // Validate final packet
   const validated = DecisionPacketSchema.parse(packet);
 
-  succeedStep(`Decision: ${validated.rubric.decision} (Score: ${validated.rubric.total}/40)`);
+  succeedStep(
+    `Decision: ${validated.rubric.decision} (Score: ${validated.rubric.total}/40)`,
+    stepContext("referee", 0, {
+      ...debugLog.referee!,
+      decision: validated.rubric.decision,
+      total: validated.rubric.total,
+      ...(consistency && { unstable: consistency.unstable }),
+      totalTokens,
+      estimatedCost,
+    })
+  );
 
-  // Attach debug log info for callers that need it
   debugLog.completedAt = new Date().toISOString();
   debugLog.totalTokens = totalTokens;
+  debugLog.calls = getCallLog();
+  debugLog.packing = getPackingLog();
+  debugLog.retries = getRetryLog();
+  debugLog.validationFailures = getValidationFailures();
+  debugLog.partial = cancelled ?? undefined;
   debugLog.estimatedCost = estimatedCost;
+  _inFlightLog = null;
 
-  // Store debug log on the packet for save logic
-  (validated as any).__debugLog = debugLog;
-
-  return validated;
+  return { packet: validated, debugLog };
 }
 
 /**
- * Full pipeline: vets one idea, saves output, prints report.
- * Unchanged external behavior.
+ * Vet one idea end to end: checkpointing, cassettes, cancellation and (with `save`) the report,
+ * debug log and DB rows. Never prints; progress goes to the progress handler. A failed run
+ * throws RunFailedError (or ConfigError when the provider can't be set up).
  */
-export async function runPipeline(options: PipelineOptions): Promise<void> {
+export async function executePipeline(options: PipelineOptions): Promise<RunResult> {
   const config = loadConfig();
+  const checkpointed = checkpointsEnabled(options);
+  const runId = options.runId ?? newRunId();
+  const skepticPanel = options.skepticPanel ?? resolvePanel(config.skepticPanel, config.skepticPersonas);
+  const stopCancellable = startCancellable({ timeoutMs: options.runTimeoutMs, signal: options.signal });
+  if (checkpointed && !options.runId) {
+    const { fetcher: _fetcher, signal: _signal, ...storedOptions } = { ...options, skepticPanel };
+    insertCheckpointRun({
+      id: runId,
+      kind: "run",
+      createdAt: new Date().toISOString(),
+      label: options.idea,
+      options: JSON.stringify(storedOptions),
+      provider: config.provider,
+      promptsDir: config.runPromptsDir ?? null,
+    });
+  }
 
+  let cassette: Cassette | null = null;
+  const cassettePath = path.join(config.outputDir, `${runId}.cassette.json`);
   try {
-    const validated = await runPipelineCore(options);
-    const debugLog = (validated as any).__debugLog;
+    resetSessionUsage();
+    if (options.replay) {
+      startReplay(loadCassette(options.replay));
+    } else if (options.record) {
+      cassette = startRecording();
+    }
+
+    const result: RunResult = await runPipelineCore({ ...options, runId, skepticPanel });
+    const { packet, debugLog } = result;
+    stopCassette();
+
+    if (cassette) {
+      result.cassettePath = cassettePath;
+      saveCassette(cassettePath, cassette);
+    }
 
     // --- OUTPUT ---
     if (options.save) {
       fs.ensureDirSync(config.outputDir);
 
-      const txtPath = path.join(config.outputDir, `${validated.runId}.txt`);
-
-      const report = generateReport(validated);
-      fs.writeFileSync(txtPath, report, "utf-8");
+      const txtPath = path.join(config.outputDir, `${packet.runId}.txt`);
+      fs.writeFileSync(txtPath, generateReport(packet), "utf-8");
 
       // Save to DB
-      insertRun(validated, txtPath, txtPath, options.groupId);
+      insertRun(packet, txtPath, txtPath, options.groupId);
+      saveDebugLog(debugLog, config.outputDir);
+      result.reportPath = txtPath;
+    }
 
-      console.log(`\nReport saved: ${txtPath}`);
-    } else {
-      console.log("\n" + generateReport(validated));
+    if (checkpointed && !packet.meta.partial) {
+      completeCheckpointRun(runId);
+    }
+    return result;
+  } catch (error) {
+    const failedLog = takeFailedDebugLog(error);
+    if (error instanceof ConfigError) throw error;
+    if (options.save && failedLog) saveDebugLog(failedLog, config.outputDir);
+    let message = error instanceof Error ? error.message : String(error);
+    // The calls recorded before the failure are what you'd replay to debug it
+    if (cassette?.entries.length) {
+      saveCassette(cassettePath, cassette);
+      message += ` (partial cassette saved: ${cassettePath})`;
+    }
+    throw new RunFailedError(message, runId, checkpointed, { cause: error });
+  } finally {
+    stopCassette();
+    stopCancellable();
+  }
+}
+
+/**
+ * Full pipeline for the CLI: vets one idea, saves output, prints the report.
+ * Ctrl-C stops it with a partial report.
+ */
+export async function runPipeline(options: PipelineOptions, output: CliOutputOptions = {}): Promise<void> {
+  const interrupt = interruptSignal();
+  // With --json, stdout carries only the packet
+  const log = output.json ? console.error : console.log;
+  try {
+    if (options.replay) {
+      log(`Replaying model responses from ${options.replay}`);
+    }
+    const { packet, reportPath, cassettePath } = await executePipeline({ ...options, signal: interrupt.signal });
+
+    if (cassettePath) {
+      log(`\nCassette saved: ${cassettePath} (${loadCassette(cassettePath).entries.length} calls)`);
+    }
+    if (reportPath) {
+      log(`\nReport saved: ${reportPath}`);
+    } else if (!output.json) {
+      log("\n" + generateReport(packet));
     }
 
-    console.log(`\nTokens used: ${validated.meta.tokenUsage.toLocaleString()} (~$${validated.meta.estimatedCost})`);
+    log(`\nTokens used: ${packet.meta.tokenUsage.toLocaleString()} (~$${packet.meta.estimatedCost})`);
+    if (output.json) {
+      console.log(JSON.stringify(packet, null, 2));
+    }
+    const partial = packet.meta.partial;
+    if (partial) {
+      const checkpointed = checkpointsEnabled(options);
+      console.error(`\nPartial report (${partial}).${checkpointed ? ` Continue with: vet resume ${packet.runId}` : ""}`);
+      process.exitCode = 130;
+    } else {
+      process.exitCode = decisionExitCode(packet.rubric.decision, output.failOn ?? []);
+    }
   } catch (error) {
     failStep("Pipeline failed");
     console.error("\nError:", error instanceof Error ? error.message : error);
+    if (error instanceof RunFailedError && error.resumable) {
+      console.error(`\nCompleted stages are saved. Continue with: vet resume ${error.runId}`);
+    }
     process.exit(1);
+  } finally {
+    interrupt.stop();
   }
 }
 
-function clampScore(value: unknown): number {
-  const n = typeof value === "number" ? value : 0;
-  return Math.max(0, Math.min(5, Math.round(n)));
+const EMPTY_ANALYSIS: AnalystResult = {
+  painThemes: [],
+  wedgeOptions: [],
+  rubricDraft: {
+    painIntensity: 0,
+    frequency: 0,
+    buyerClarity: 0,
+    budgetSignal: 0,
+    switchingCost: 0,
+    competition: 0,
+    distributionFeasibility: 0,
+    reasons: [],
+  },
+  premortem: [],
+  nextTests: [],
+};
+
+/**
+ * The Analyst's rubric draft in Referee form, for runs that end without a Referee verdict.
+ */
+function analystDraft(analysis: AnalystResult): RefereeDraft {
+  const { reasons: _reasons, ...draftScores } = analysis.rubricDraft;
+  return {
+    analysis,
+    rubric: { ...draftScores, decision: "UNCLEAR", reasons: [] },
+    evidenceRefs: analysis.evidenceRefs,
+  };
 }
 
-function toStringArray(value: unknown): string[] | undefined {
-  if (Array.isArray(value)) {
-    return value.map(String);
-  }
-  return undefined;
+/**
+ * The Referee sees everything the Analyst and Skeptic saw plus their output,
+ * so project it as a somewhat larger call than either of them.
+ */
+function estimateRefereeSpend(pricing: PricingTable, samples: number): Spend {
+  return estimateCallSpend(getStageUsage(), ["analyst", "skeptic"], pricing, 1.5 * samples);
 }
+
@@ -10,18 +10,28 @@ const HIGH_CREDIBILITY_DOMAINS = new Set([
   "producthunt.com", "indiehackers.com",
 ]);
 
-export function computeEvidenceStrength(evidence: EvidenceItem[]): number {
-  const count = evidence.length;
-  const domains = new Set(evidence.map((e) => getDomain(e.url)));
+/**
+ * Evidence whose URL no web search citation backs (`cited: false`) counts half
+ * toward the evidence count and earns no domain or review-source bonus.
+ * With `verifiedOnly`, items whose quote wasn't found on the fetched page are ignored.
+ */
+export function computeEvidenceStrength(
+  allEvidence: EvidenceItem[],
+  options: { verifiedOnly?: boolean } = {}
+): number {
+  const evidence = options.verifiedOnly ? allEvidence.filter((e) => e.verified === true) : allEvidence;
+  const verified = evidence.filter((e) => e.cited !== false);
+  const count = verified.length + (evidence.length - verified.length) * 0.5;
+  const domains = new Set(verified.map((e) => getDomain(e.url)));
   const uniqueDomains = domains.size;
 
-  const reviewSources = evidence.filter((e) => {
+  const reviewSources = verified.filter((e) => {
     const domain = getDomain(e.url);
     return HIGH_CREDIBILITY_DOMAINS.has(domain);
   });
 
   const lowCredCount = evidence.filter((e) => e.credibility <= 1).length;
-  const lowCredRatio = count > 0 ? lowCredCount / count : 0;
+  const lowCredRatio = evidence.length > 0 ? lowCredCount / evidence.length : 0;
 
   // Base score from evidence count
   let score = Math.min(5, Math.floor(count / 6));
@@ -61,6 +71,50 @@ export function computeTotal(scores: RubricScores, evidenceStrength: number): nu
   );
 }
 
+/**
+ * Kill-rule thresholds (`rubric` in vet.config.json). A rule fires when its score is
+ * at or below the threshold.
+ */
+export interface RubricSettings {
+  killThresholds: {
+    /** NO_GO */
+    evidenceStrength: number;
+    /** NO_GO */
+    distributionFeasibility: number;
+    /** NO_GO when there are also no wedge options */
+    competition: number;
+    /** UNCLEAR when there are also fewer than `minEvidence` items */
+    buyerClarity: number;
+  };
+  minEvidence: number;
+  /** Points each of the Skeptic's "already solved" notes takes off the competition ceiling (0 = off) */
+  alreadySolvedPenalty: number;
+}
+
+export const DEFAULT_RUBRIC_SETTINGS: RubricSettings = {
+  killThresholds: { evidenceStrength: 1, distributionFeasibility: 1, competition: 1, buyerClarity: 1 },
+  minEvidence: 10,
+  alreadySolvedPenalty: 1,
+};
+
+/**
+ * Lower the competition score when the Skeptic found existing solutions: each "already
+ * solved" note takes `penalty` points off the ceiling of 5, down to no less than 1 (a
+ * crowded market, not a closed one). `reason` is set only when the score was lowered.
+ */
+export function capCompetition(
+  competition: number,
+  alreadySolvedNotes: number,
+  penalty: number = DEFAULT_RUBRIC_SETTINGS.alreadySolvedPenalty
+): { competition: number; reason?: string } {
+  const ceiling = Math.max(1, 5 - alreadySolvedNotes * penalty);
+  if (competition <= ceiling) return { competition };
+  return {
+    competition: ceiling,
+    reason: `Already solved: competition capped at ${ceiling} (from ${competition}); the Skeptic found ${alreadySolvedNotes} existing solution(s).`,
+  };
+}
+
 export interface KillRuleResult {
   decision: "GO" | "NO_GO" | "UNCLEAR";
   overridden: boolean;
@@ -71,27 +125,31 @@ export function applyKillRules(
   rubric: Omit<Rubric, "total" | "decision" | "reasons">,
   wedgeOptions: WedgeOption[],
   evidenceCount: number,
-  originalDecision: "GO" | "NO_GO" | "UNCLEAR"
+  originalDecision: "GO" | "NO_GO" | "UNCLEAR",
+  settings: RubricSettings = DEFAULT_RUBRIC_SETTINGS
 ): KillRuleResult {
   const reasons: string[] = [];
+  const kill = settings.killThresholds;
 
-  // Kill rule 1: evidenceStrength <= 1 → NO_GO
-  if (rubric.evidenceStrength <= 1) {
-    reasons.push("Kill rule: evidenceStrength <= 1 — insufficient evidence to proceed.");
+  // Kill rule 1: evidenceStrength <= threshold → NO_GO
+  if (rubric.evidenceStrength <= kill.evidenceStrength) {
+    reasons.push(`Kill rule: evidenceStrength <= ${kill.evidenceStrength} — insufficient evidence to proceed.`);
   }
 
-  // Kill rule 2: distributionFeasibility <= 1 → NO_GO
-  if (rubric.distributionFeasibility <= 1) {
-    reasons.push("Kill rule: distributionFeasibility <= 1 — no clear way to reach buyers.");
+  // Kill rule 2: distributionFeasibility <= threshold → NO_GO
+  if (rubric.distributionFeasibility <= kill.distributionFeasibility) {
+    reasons.push(`Kill rule: distributionFeasibility <= ${kill.distributionFeasibility} — no clear way to reach buyers.`);
   }
 
-  // Kill rule 3: competition <= 1 AND no wedge options → NO_GO
-  if (rubric.competition <= 1 && wedgeOptions.length === 0) {
-    reasons.push("Kill rule: competition <= 1 with no wedge options — market is saturated with no differentiation path.");
+  // Kill rule 3: competition <= threshold AND no wedge options → NO_GO
+  if (rubric.competition <= kill.competition && wedgeOptions.length === 0) {
+    reasons.push(
+      `Kill rule: competition <= ${kill.competition} with no wedge options — market is saturated with no differentiation path.`
+    );
   }
 
-  // Kill rule 4: buyerClarity <= 1 AND evidence < 10 → UNCLEAR
-  const unclearRule = rubric.buyerClarity <= 1 && evidenceCount < 10;
+  // Kill rule 4: buyerClarity <= threshold AND too little evidence → UNCLEAR
+  const unclearRule = rubric.buyerClarity <= kill.buyerClarity && evidenceCount < settings.minEvidence;
 
   if (reasons.length > 0) {
     return {
@@ -102,7 +160,7 @@ export function applyKillRules(
   }
 
   if (unclearRule) {
-    const unclearReason = "Kill rule: buyerClarity <= 1 with insufficient evidence — cannot determine buyer.";
+    const unclearReason = `Kill rule: buyerClarity <= ${kill.buyerClarity} with insufficient evidence — cannot determine buyer.`;
     return {
       decision: "UNCLEAR",
       overridden: originalDecision !== "UNCLEAR" && originalDecision !== "NO_GO",
@@ -116,3 +174,18 @@ export function applyKillRules(
     overrideReasons: [],
   };
 }
+
+type Decision = KillRuleResult["decision"];
+
+const DECISION_CAUTION: Record<Decision, number> = { NO_GO: 2, UNCLEAR: 1, GO: 0 };
+
+/**
+ * The most common decision; ties go to the more cautious one (NO_GO, then UNCLEAR).
+ */
+export function majorityDecision(decisions: Decision[]): Decision {
+  const counts = new Map<Decision, number>();
+  for (const d of decisions) counts.set(d, (counts.get(d) ?? 0) + 1);
+  return [...counts.entries()].sort(
+    ([a, countA], [b, countB]) => countB - countA || DECISION_CAUTION[b] - DECISION_CAUTION[a]
+  )[0][0];
+}
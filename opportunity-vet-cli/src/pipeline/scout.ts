@@ -1,3 +1,5 @@
+import type { CompetitorItem } from "../openai/schemas/scout.zod.js";
+
 export interface QueryInput {
   idea: string;
   niche?: string;
@@ -34,3 +36,33 @@ export function generateQueries(input: QueryInput): string[] {
 
   return queries;
 }
+
+/** Missed competitors researched per critique iteration */
+export const MAX_COMPETITOR_QUERIES = 4;
+
+/**
+ * The competitor a Skeptic note names: "Notion — adds AI summaries" → "Notion".
+ */
+export function competitorName(text: string): string {
+  return text.split(/\s+[—–-]\s+|:\s/)[0].trim();
+}
+
+/**
+ * One targeted search per competitor the Skeptic says was missed, skipping those already
+ * in the competitor list. `names` go to the Scout so it profiles each of them.
+ */
+export function competitorQueries(
+  missedCompetitors: string[],
+  known: CompetitorItem[]
+): { names: string[]; queries: string[] } {
+  const seen = new Set(known.map((c) => c.name.toLowerCase().trim()));
+  const names: string[] = [];
+  for (const note of missedCompetitors) {
+    const name = competitorName(note);
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    names.push(name);
+    if (names.length >= MAX_COMPETITOR_QUERIES) break;
+  }
+  return { names, queries: names.map((name) => `${name} pricing reviews complaints`) };
+}
@@ -0,0 +1,64 @@
+import crypto from "node:crypto";
+import { getCachedSearch, putCachedSearch } from "../db/index.js";
+import type { SearchCache } from "../openai/client.js";
+
+export interface SearchCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  /** createdAt of the oldest cached search served, to judge evidence freshness */
+  oldestHitAt?: string;
+}
+
+export interface TrackedSearchCache extends SearchCache {
+  stats(): SearchCacheStats;
+}
+
+export function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Same queries in any order, casing or spacing map to the same key, per model.
+ */
+export function searchCacheKey(queries: string[], model: string): string {
+  const normalized = Array.from(new Set(queries.map(normalizeQuery))).sort();
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([model, normalized]))
+    .digest("hex");
+}
+
+/**
+ * SQLite-backed cache of Scout phase-1 search results.
+ * Entries older than `ttlHours` count as misses and are overwritten on the next search.
+ */
+export function createSearchCache(ttlHours: number, enabled: boolean = true): TrackedSearchCache {
+  const stats: SearchCacheStats = { enabled, hits: 0, misses: 0 };
+  const ttlMs = ttlHours * 60 * 60 * 1000;
+
+  return {
+    get(queries, model) {
+      if (!enabled) return undefined;
+      const cached = getCachedSearch(searchCacheKey(queries, model));
+      if (!cached || Date.now() - Date.parse(cached.createdAt) > ttlMs) {
+        stats.misses++;
+        return undefined;
+      }
+      stats.hits++;
+      if (!stats.oldestHitAt || cached.createdAt < stats.oldestHitAt) {
+        stats.oldestHitAt = cached.createdAt;
+      }
+      return { text: cached.response, citations: cached.citations };
+    },
+
+    put(queries, model, reply) {
+      if (!enabled) return;
+      putCachedSearch(searchCacheKey(queries, model), model, queries, reply.text, reply.citations);
+    },
+
+    stats() {
+      return { ...stats };
+    },
+  };
+}
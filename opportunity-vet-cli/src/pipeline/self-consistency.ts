@@ -0,0 +1,79 @@
+import type { RefereeDraft, RefereeRubric } from "../openai/schemas/referee.zod.js";
+import type { Consistency } from "../openai/schemas/packet.zod.js";
+import { majorityDecision } from "./scoring.js";
+
+/** Upper bound on `refereeSamples` */
+export const MAX_REFEREE_SAMPLES = 9;
+
+/** The rubric dimensions the Referee scores (evidenceStrength is computed in code) */
+export const REFEREE_DIMENSIONS = [
+  "painIntensity",
+  "frequency",
+  "buyerClarity",
+  "budgetSignal",
+  "switchingCost",
+  "competition",
+  "distributionFeasibility",
+] as const;
+
+type Dimension = (typeof REFEREE_DIMENSIONS)[number];
+
+/**
+ * Median of integer scores; with an even count, the lower of the middle two (the cautious one).
+ */
+export function medianScore(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+/**
+ * High when every sample agreed, medium when they were a point apart, low beyond that.
+ */
+export function scoreConfidence(min: number, max: number): Consistency["dimensions"][string]["confidence"] {
+  const spread = max - min;
+  return spread === 0 ? "high" : spread === 1 ? "medium" : "low";
+}
+
+/**
+ * Combine several Referee drafts over the same evidence: the median of each rubric score,
+ * the majority decision (ties go to the more cautious one), and the analysis, reasons and
+ * evidence refs of the sample with that decision closest to the medians.
+ */
+export function aggregateRefereeSamples(drafts: RefereeDraft[]): { draft: RefereeDraft; consistency: Consistency } {
+  const dimensions = {} as Consistency["dimensions"];
+  const medians = {} as Record<Dimension, number>;
+  for (const dimension of REFEREE_DIMENSIONS) {
+    const scores = drafts.map((d) => d.rubric[dimension]);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    medians[dimension] = medianScore(scores);
+    dimensions[dimension] = { median: medians[dimension], min, max, confidence: scoreConfidence(min, max) };
+  }
+
+  const decisions = drafts.map((d) => d.rubric.decision);
+  const decision = majorityDecision(decisions);
+  const distance = (rubric: RefereeRubric) =>
+    REFEREE_DIMENSIONS.reduce((sum, dimension) => sum + Math.abs(rubric[dimension] - medians[dimension]), 0);
+  const representative = drafts
+    .filter((d) => d.rubric.decision === decision)
+    .reduce((best, d) => (distance(d.rubric) < distance(best.rubric) ? d : best));
+
+  return {
+    draft: { ...representative, rubric: { ...representative.rubric, ...medians, decision } },
+    consistency: {
+      samples: drafts.length,
+      decisions,
+      unstable: new Set(decisions).size > 1,
+      dimensions,
+    },
+  };
+}
+
+/**
+ * "2× GO, 1× NO_GO"
+ */
+export function formatSampleDecisions(decisions: Consistency["decisions"]): string {
+  const counts = new Map<string, number>();
+  for (const d of decisions) counts.set(d, (counts.get(d) ?? 0) + 1);
+  return [...counts.entries()].map(([d, n]) => `${n}× ${d}`).join(", ");
+}
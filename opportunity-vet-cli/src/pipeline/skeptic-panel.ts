@@ -0,0 +1,163 @@
+import type { SkepticResult } from "../openai/schemas/skeptic.zod.js";
+import type { SkepticPanel } from "../openai/schemas/packet.zod.js";
+import { ConfigError } from "../errors.js";
+import { majorityDecision } from "./scoring.js";
+import { competitorName } from "./scout.js";
+
+export interface SkepticPersona {
+  id: string;
+  name: string;
+  /** The persona's point of view, added to the Skeptic's system prompt; none for the plain red team */
+  brief?: string;
+}
+
+export const BUILT_IN_PERSONAS: Record<string, SkepticPersona> = {
+  "red-team": { id: "red-team", name: "Red team" },
+  investor: {
+    id: "investor",
+    name: "Investor",
+    brief:
+      "an early-stage investor deciding whether to back this. Press on market size, willingness to pay, unit economics, defensibility and whether a small team can actually reach the buyers.",
+  },
+  buyer: {
+    id: "buyer",
+    name: "Target buyer",
+    brief:
+      "the target customer being pitched this product. Press on whether the pain is bad enough to pay for, what you already use instead, the effort of switching and who has to approve the purchase.",
+  },
+  incumbent: {
+    id: "incumbent",
+    name: "Incumbent competitor",
+    brief:
+      "the product lead at the strongest existing competitor. Press on how quickly you could copy or bundle this, which customers you already own and why they would never leave.",
+  },
+  "channel-partner": {
+    id: "channel-partner",
+    name: "Channel partner",
+    brief:
+      "a reseller, marketplace or agency that would have to distribute this. Press on margins, fit with what you already sell and whether your customers ever ask for it.",
+  },
+};
+
+export const DEFAULT_SKEPTIC_PANEL = ["red-team"];
+
+/** Follow-up queries kept from a panel, shared round-robin across personas */
+export const MAX_PANEL_QUERIES = 8;
+
+type ObjectionKind = SkepticPanel["objections"][number]["kind"];
+
+export interface PersonaResult {
+  persona: SkepticPersona;
+  result: SkepticResult;
+}
+
+/**
+ * Look up the panel's personas: built-ins, or `custom` ones from the config (which win on
+ * a shared id). Throws ConfigError for unknown ids and an empty panel.
+ */
+export function resolvePanel(
+  ids: string[],
+  custom: Record<string, { name: string; brief: string }> = {}
+): SkepticPersona[] {
+  if (ids.length === 0) throw new ConfigError("The Skeptic panel needs at least one persona.");
+  const available = { ...BUILT_IN_PERSONAS };
+  for (const [id, persona] of Object.entries(custom)) available[id] = { id, ...persona };
+  return [...new Set(ids)].map((id) => {
+    const persona = available[id];
+    if (!persona) {
+      throw new ConfigError(`Unknown Skeptic persona "${id}". Available: ${Object.keys(available).join(", ")}`);
+    }
+    return persona;
+  });
+}
+
+/**
+ * Checkpoint stage of one persona's Skeptic call; the plain red team keeps the original name.
+ */
+export function skepticStage(persona: SkepticPersona): string {
+  return persona.id === "red-team" ? "skeptic" : `skeptic:${persona.id}`;
+}
+
+/**
+ * Merge the panel's results into one SkepticResult for the Referee and the next Scout pass,
+ * plus the attributed panel for the packet. Near-identical objections merge into one that
+ * lists every persona that raised it; follow-up queries are deduplicated and capped.
+ * A single persona's result passes through unchanged.
+ */
+export function mergeSkepticResults(
+  results: PersonaResult[],
+  maxQueries: number = MAX_PANEL_QUERIES
+): { skeptic: SkepticResult; panel: SkepticPanel } {
+  const objections: SkepticPanel["objections"] = [];
+  const collect = (kind: ObjectionKind, pick: (r: SkepticResult) => string[], key: (text: string) => string) => {
+    const merged: SkepticPanel["objections"] = [];
+    for (const { persona, result } of results) {
+      for (const text of pick(result)) {
+        const existing = merged.find((o) => sameText(key(o.text), key(text)));
+        if (existing) {
+          if (!existing.personas.includes(persona.id)) existing.personas.push(persona.id);
+        } else {
+          merged.push({ kind, text, personas: [persona.id] });
+        }
+      }
+    }
+    objections.push(...merged);
+    return merged.map((o) => o.text);
+  };
+
+  const counterarguments = collect("counterargument", (r) => r.counterarguments, (t) => t);
+  const alreadySolvedNotes = collect("already-solved", (r) => r.alreadySolvedNotes, (t) => t);
+  const missedCompetitors = collect("missed-competitor", (r) => r.missedCompetitors, competitorName);
+
+  const panel: SkepticPanel = {
+    personas: results.map(({ persona, result }) => ({
+      id: persona.id,
+      name: persona.name,
+      decision: result.decisionSuggestion.decision,
+    })),
+    objections,
+  };
+
+  if (results.length === 1) return { skeptic: results[0].result, panel };
+
+  return {
+    skeptic: {
+      counterarguments,
+      alreadySolvedNotes,
+      missedCompetitors,
+      missingEvidenceQueries: interleaveQueries(results.map((r) => r.result.missingEvidenceQueries), maxQueries),
+      decisionSuggestion: {
+        decision: majorityDecision(results.map((r) => r.result.decisionSuggestion.decision)),
+        reasons: results.flatMap(({ persona, result }) =>
+          result.decisionSuggestion.reasons.map((reason) => `${persona.name}: ${reason}`)
+        ),
+      },
+    },
+    panel,
+  };
+}
+
+// One query from each persona in turn, so every persona's gaps get searched
+function interleaveQueries(lists: string[][], max: number): string[] {
+  const queries: string[] = [];
+  for (let i = 0; queries.length < max && lists.some((list) => i < list.length); i++) {
+    for (const list of lists) {
+      const query = list[i];
+      if (query === undefined || queries.length >= max) continue;
+      if (!queries.some((q) => normalize(q) === normalize(query))) queries.push(query);
+    }
+  }
+  return queries;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim();
+}
+
+// Equal after normalizing, or sharing at least 80% of their words
+function sameText(a: string, b: string): boolean {
+  const wordsA = new Set(normalize(a).split(" "));
+  const wordsB = new Set(normalize(b).split(" "));
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  return shared / new Set([...wordsA, ...wordsB]).size >= 0.8;
+}
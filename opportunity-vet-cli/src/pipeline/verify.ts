@@ -0,0 +1,170 @@
+import type { EvidenceItem } from "../openai/schemas/scout.zod.js";
+
+/**
+ * Fetches a page and returns its body. Swappable so verification can run
+ * against a local stand-in instead of the web.
+ */
+export type PageFetcher = (url: string) => Promise<string>;
+
+/** Match score at or above which a quote counts as found on its page */
+export const VERIFIED_THRESHOLD = 0.8;
+
+const DEFAULT_CONCURRENCY = 4;
+
+export interface HttpFetcherOptions {
+  timeoutMs?: number;
+  /** Pages larger than this are truncated */
+  maxBytes?: number;
+  /** Aborts every fetch, e.g. when the run is cancelled */
+  signal?: AbortSignal;
+}
+
+export function createHttpFetcher(options: HttpFetcherOptions = {}): PageFetcher {
+  const { timeoutMs = 10_000, maxBytes = 2_000_000, signal } = options;
+
+  return async (url) => {
+    const response = await fetch(url, {
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs),
+      headers: { "user-agent": "opportunity-vet-cli (quote verification)", accept: "text/html,text/plain" },
+      redirect: "follow",
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+    const body = await response.text();
+    return body.length > maxBytes ? body.slice(0, maxBytes) : body;
+  };
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: '"',
+  ldquo: '"',
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+};
+
+/**
+ * Visible text of an HTML page: scripts, styles and tags dropped, entities decoded.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&#(\d+);/g, (_m, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (m, name: string) => ENTITIES[name.toLowerCase()] ?? m)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}']+/gu, " ")
+    .split(" ")
+    .filter(Boolean);
+}
+
+/**
+ * How much of the quote appears on the page, 0-1. An exact match (ignoring case,
+ * punctuation and spacing) scores 1; otherwise the best share of the quote's words
+ * found within any quote-length window of the page, so light paraphrase or
+ * ellipsis still scores high while words scattered across the page don't.
+ */
+export function quoteMatchScore(quote: string, pageText: string): number {
+  const quoteTokens = tokenize(quote);
+  const pageTokens = tokenize(pageText);
+  if (quoteTokens.length === 0 || pageTokens.length === 0) return 0;
+  if (` ${pageTokens.join(" ")} `.includes(` ${quoteTokens.join(" ")} `)) return 1;
+
+  const wanted = new Map<string, number>();
+  for (const t of quoteTokens) wanted.set(t, (wanted.get(t) ?? 0) + 1);
+
+  const size = quoteTokens.length;
+  const window = new Map<string, number>();
+  let matched = 0;
+  let best = 0;
+
+  for (let i = 0; i < pageTokens.length; i++) {
+    const incoming = pageTokens[i];
+    const inCount = (window.get(incoming) ?? 0) + 1;
+    window.set(incoming, inCount);
+    if (inCount <= (wanted.get(incoming) ?? 0)) matched++;
+
+    if (i >= size) {
+      const outgoing = pageTokens[i - size];
+      const outCount = window.get(outgoing)!;
+      window.set(outgoing, outCount - 1);
+      if (outCount <= (wanted.get(outgoing) ?? 0)) matched--;
+    }
+    best = Math.max(best, matched);
+  }
+
+  return Math.round((best / size) * 100) / 100;
+}
+
+/**
+ * Fetch each evidence page and check its quote. Items already checked in an earlier
+ * iteration are kept as-is. `matchScore` is left unset when the page couldn't be fetched.
+ */
+export async function verifyEvidence(
+  evidence: EvidenceItem[],
+  fetcher: PageFetcher,
+  concurrency: number = DEFAULT_CONCURRENCY
+): Promise<EvidenceItem[]> {
+  const results = [...evidence];
+  const pending = evidence.map((e, i) => i).filter((i) => evidence[i].verified === undefined);
+  const pages = new Map<string, Promise<string | null>>();
+
+  const fetchPage = (url: string) => {
+    if (!pages.has(url)) {
+      pages.set(url, fetcher(url).then(htmlToText, () => null));
+    }
+    return pages.get(url)!;
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const index = pending[next++];
+      const item = evidence[index];
+      const text = await fetchPage(item.url);
+      if (text === null) {
+        results[index] = { ...item, verified: false };
+        continue;
+      }
+      const matchScore = quoteMatchScore(item.quote, text);
+      results[index] = { ...item, verified: matchScore >= VERIFIED_THRESHOLD, matchScore };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+  return results;
+}
+
+export interface QuoteVerificationStats {
+  checked: number;
+  verified: number;
+  /** Pages that couldn't be fetched; their quotes count as unverified */
+  unreachable: number;
+}
+
+export function quoteVerificationStats(evidence: EvidenceItem[]): QuoteVerificationStats {
+  const checked = evidence.filter((e) => e.verified !== undefined);
+  return {
+    checked: checked.length,
+    verified: checked.filter((e) => e.verified).length,
+    unreachable: checked.filter((e) => !e.verified && e.matchScore === undefined).length,
+  };
+}
@@ -0,0 +1,125 @@
+import crypto from "node:crypto";
+import fs from "fs-extra";
+import path from "node:path";
+import type { ProviderName } from "../config.js";
+import type { ChatRequest, ChatResponse, LLMProvider, StageName } from "./types.js";
+
+export interface CassetteEntry {
+  stage: StageName;
+  promptHash: string;
+  attempt: number;
+  request: ChatRequest;
+  response: ChatResponse;
+}
+
+/**
+ * Every model request/response pair of one run, in call order.
+ */
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  provider: ProviderName;
+  model: string;
+  supportsWebSearch: boolean;
+  /** Absent in cassettes recorded before structured outputs existed */
+  supportsStructuredOutput?: boolean;
+  entries: CassetteEntry[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly key: string) {
+    super(`Cassette miss: no recorded response for ${key}. The prompts changed since recording; re-record the run.`);
+    this.name = "CassetteMissError";
+  }
+}
+
+export function hashPrompt(request: Pick<ChatRequest, "systemPrompt" | "userPrompt">): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${request.systemPrompt}\n\n${request.userPrompt}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function entryKey(stage: StageName, promptHash: string, attempt: number): string {
+  return `${stage}/${promptHash}/${attempt}`;
+}
+
+export function createCassette(provider: LLMProvider): Cassette {
+  return {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    provider: provider.name,
+    model: provider.model,
+    supportsWebSearch: provider.supportsWebSearch,
+    supportsStructuredOutput: provider.supportsStructuredOutput,
+    entries: [],
+  };
+}
+
+/**
+ * Wraps a live provider and appends every successful call to the cassette.
+ */
+export function createRecordingProvider(inner: LLMProvider, cassette: Cassette): LLMProvider {
+  return {
+    name: inner.name,
+    model: inner.model,
+    supportsWebSearch: inner.supportsWebSearch,
+    supportsStructuredOutput: inner.supportsStructuredOutput,
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const response = await inner.chat(request);
+      const { signal: _signal, ...recorded } = request;
+      cassette.entries.push({
+        stage: request.stage,
+        promptHash: hashPrompt(request),
+        attempt: request.attempt,
+        request: recorded,
+        response,
+      });
+      return response;
+    },
+  };
+}
+
+/**
+ * Serves responses from a cassette without touching the network.
+ * Identical keys are served in recorded order; anything unrecorded throws CassetteMissError.
+ */
+export function createReplayProvider(cassette: Cassette): LLMProvider {
+  const queues = new Map<string, ChatResponse[]>();
+  for (const entry of cassette.entries) {
+    const key = entryKey(entry.stage, entry.promptHash, entry.attempt);
+    if (!queues.has(key)) queues.set(key, []);
+    queues.get(key)!.push(entry.response);
+  }
+
+  return {
+    name: cassette.provider,
+    model: cassette.model,
+    supportsWebSearch: cassette.supportsWebSearch,
+    supportsStructuredOutput: cassette.supportsStructuredOutput ?? false,
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const key = entryKey(request.stage, hashPrompt(request), request.attempt);
+      const response = queues.get(key)?.shift();
+      if (!response) {
+        throw new CassetteMissError(key);
+      }
+      return response;
+    },
+  };
+}
+
+export function loadCassette(filePath: string): Cassette {
+  const cassette = fs.readJsonSync(filePath) as Cassette;
+  if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+    throw new Error(`Not a valid cassette file: ${filePath}`);
+  }
+  return cassette;
+}
+
+export function saveCassette(filePath: string, cassette: Cassette): void {
+  fs.ensureDirSync(path.dirname(filePath));
+  fs.writeJsonSync(filePath, cassette, { spaces: 2 });
+}
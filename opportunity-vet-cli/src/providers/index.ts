@@ -0,0 +1,24 @@
+import type { Config } from "../config.js";
+import type { LLMProvider } from "./types.js";
+import { createOpenAIProvider } from "./openai.js";
+import { createLocalProvider } from "./local.js";
+
+export type {
+  ChatRequest,
+  ChatResponse,
+  ChatUsage,
+  Citation,
+  LLMProvider,
+  ReasoningEffort,
+  StageName,
+  StageUsage,
+} from "./types.js";
+
+export function createProvider(config: Config): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config);
+    case "local":
+      return createLocalProvider(config);
+  }
+}
@@ -0,0 +1,53 @@
+import OpenAI from "openai";
+import type { Config } from "../config.js";
+import type { ChatRequest, ChatResponse, LLMProvider } from "./types.js";
+
+/**
+ * OpenAI-compatible Chat Completions endpoint (llama.cpp server, Ollama, vLLM, ...).
+ * These servers have no hosted search tool, so `useWebSearch` is ignored. JSON Schema
+ * response formats vary by server, so they are opt-in via LOCAL_STRUCTURED_OUTPUT.
+ */
+export function createLocalProvider(config: Config): LLMProvider {
+  // Retries are handled (and logged) by the stage client
+  const client = new OpenAI({ apiKey: config.localApiKey, baseURL: config.localBaseUrl, maxRetries: 0 });
+
+  return {
+    name: "local",
+    model: config.localModel,
+    supportsWebSearch: false,
+    supportsStructuredOutput: config.localStructuredOutput,
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const model = request.model ?? config.localModel;
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt },
+        ],
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.reasoningEffort && { reasoning_effort: request.reasoningEffort }),
+        ...(request.responseFormat && {
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: request.responseFormat.name,
+              schema: request.responseFormat.schema,
+              strict: true,
+            },
+          },
+        }),
+      }, { signal: request.signal });
+
+      return {
+        text: completion.choices[0]?.message?.content ?? "",
+        model,
+        usage: {
+          inputTokens: completion.usage?.prompt_tokens ?? 0,
+          cachedInputTokens: completion.usage?.prompt_tokens_details?.cached_tokens ?? 0,
+          outputTokens: completion.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
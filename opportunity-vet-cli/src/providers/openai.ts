@@ -0,0 +1,81 @@
+import OpenAI from "openai";
+import type { Config } from "../config.js";
+import { ConfigError } from "../errors.js";
+import type { ChatRequest, ChatResponse, Citation, LLMProvider } from "./types.js";
+
+/**
+ * OpenAI Responses API provider with the hosted web_search tool.
+ */
+export function createOpenAIProvider(config: Config): LLMProvider {
+  if (!config.openaiApiKey) {
+    throw new ConfigError("OPENAI_API_KEY is not set. Copy .env.example to .env and add your key, or pass openaiApiKey in the config.");
+  }
+  // Retries are handled (and logged) by the stage client
+  const client = new OpenAI({ apiKey: config.openaiApiKey, maxRetries: 0 });
+
+  return {
+    name: "openai",
+    model: config.openaiModel,
+    supportsWebSearch: true,
+    supportsStructuredOutput: true,
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const tools: OpenAI.Responses.Tool[] = request.useWebSearch
+        ? [{ type: "web_search_preview" }]
+        : [];
+
+      const model = request.model ?? config.openaiModel;
+      const response = await client.responses.create({
+        model,
+        instructions: request.systemPrompt,
+        input: request.userPrompt,
+        tools,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.reasoningEffort && { reasoning: { effort: request.reasoningEffort } }),
+        ...(request.responseFormat && {
+          text: {
+            format: {
+              type: "json_schema",
+              name: request.responseFormat.name,
+              schema: request.responseFormat.schema,
+              strict: true,
+            },
+          },
+        }),
+      }, { signal: request.signal });
+
+      // Extract text and web search citations from output items
+      const textParts: string[] = [];
+      const citations: Citation[] = [];
+      let webSearchCalls = 0;
+      for (const item of response.output) {
+        if (item.type === "web_search_call") {
+          webSearchCalls++;
+        } else if (item.type === "message") {
+          for (const content of item.content) {
+            if (content.type === "output_text") {
+              textParts.push(content.text);
+              for (const annotation of content.annotations) {
+                if (annotation.type === "url_citation") {
+                  citations.push({ url: annotation.url, title: annotation.title });
+                }
+              }
+            }
+          }
+        }
+      }
+
+      return {
+        text: textParts.join("\n"),
+        model,
+        citations,
+        usage: {
+          inputTokens: response.usage?.input_tokens ?? 0,
+          cachedInputTokens: response.usage?.input_tokens_details?.cached_tokens ?? 0,
+          outputTokens: response.usage?.output_tokens ?? 0,
+          webSearchCalls,
+        },
+      };
+    },
+  };
+}
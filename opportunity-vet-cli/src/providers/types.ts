@@ -0,0 +1,86 @@
+import type { ProviderName } from "../config.js";
+import type { ResponseFormat } from "../openai/structured.js";
+
+export const STAGE_NAMES = [
+  "scout-search",
+  "scout-structure",
+  "analyst",
+  "skeptic",
+  "referee",
+  "ideator-research",
+  "ideator",
+  "salvage",
+] as const;
+
+export type StageName = (typeof STAGE_NAMES)[number];
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+export interface ChatRequest {
+  stage: StageName;
+  /** Validation attempt within the stage (0 = first try) */
+  attempt: number;
+  systemPrompt: string;
+  userPrompt: string;
+  useWebSearch?: boolean;
+  /** Strict JSON Schema for the reply; only sent when `supportsStructuredOutput` */
+  responseFormat?: ResponseFormat;
+  /** Overrides the provider's default model for this call */
+  model?: string;
+  temperature?: number;
+  /** Only honored by reasoning models */
+  reasoningEffort?: ReasoningEffort;
+  /** Aborts the request (cancellation or the per-call timeout) */
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  /** All input tokens, including the cached ones */
+  inputTokens: number;
+  cachedInputTokens?: number;
+  outputTokens: number;
+  webSearchCalls?: number;
+}
+
+/**
+ * A source the model's web search actually returned and cited in its answer.
+ */
+export interface Citation {
+  url: string;
+  title?: string;
+}
+
+export interface ChatResponse {
+  text: string;
+  usage: ChatUsage;
+  /** url_citation annotations from web search; absent when the provider has none */
+  citations?: Citation[];
+  /** Model that served the call; absent in cassettes recorded before per-stage models */
+  model?: string;
+}
+
+/**
+ * A model backend the pipeline stages can talk to.
+ * `supportsWebSearch` tells search-dependent stages whether `useWebSearch` will be honored;
+ * `supportsStructuredOutput` whether a strict `responseFormat` will be enforced.
+ */
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly supportsWebSearch: boolean;
+  readonly supportsStructuredOutput: boolean;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+/**
+ * Usage accumulated for one stage on one model.
+ */
+export interface StageUsage {
+  stage: StageName;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  webSearchCalls: number;
+}
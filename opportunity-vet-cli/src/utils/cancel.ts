@@ -0,0 +1,84 @@
+/**
+ * Thrown by model calls and pipeline steps once the command has been cancelled
+ * (Ctrl-C or the run timeout). Never retried.
+ */
+export class CancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+let _controller = new AbortController();
+
+/**
+ * Aborted when the current command is cancelled; pass it to anything that waits on the network.
+ */
+export function getCancelSignal(): AbortSignal {
+  return _controller.signal;
+}
+
+export function isCancelled(): boolean {
+  return _controller.signal.aborted;
+}
+
+/** Why the command was cancelled, or undefined while it is still running */
+export function cancelReason(): string | undefined {
+  return isCancelled() ? String(_controller.signal.reason) : undefined;
+}
+
+export function cancel(reason: string): void {
+  if (!isCancelled()) _controller.abort(reason);
+}
+
+export function throwIfCancelled(): void {
+  if (isCancelled()) throw new CancelledError(cancelReason()!);
+}
+
+export interface CancellableOptions {
+  /** Cancel after this long */
+  timeoutMs?: number;
+  /** Cancel when this signal aborts; a string abort reason becomes the cancel reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Start a cancellable command: the optional timeout and signal cancel it.
+ * Returns a function that clears the timer and listener.
+ */
+export function startCancellable(options: CancellableOptions = {}): () => void {
+  const { timeoutMs, signal } = options;
+  _controller = new AbortController();
+
+  const onAbort = () => cancel(typeof signal?.reason === "string" ? signal.reason : "Cancelled by caller");
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(() => cancel(`Run timed out after ${Math.round(timeoutMs / 1000)}s`), timeoutMs)
+      : undefined;
+  timer?.unref();
+
+  return () => {
+    signal?.removeEventListener("abort", onAbort);
+    if (timer) clearTimeout(timer);
+  };
+}
+
+/**
+ * Ctrl-C handling for CLI commands: the first SIGINT aborts the returned signal so the
+ * command finishes with a partial report, a second one exits immediately.
+ */
+export function interruptSignal(): { signal: AbortSignal; stop: () => void } {
+  const controller = new AbortController();
+
+  const onInterrupt = () => {
+    if (controller.signal.aborted || isCancelled()) process.exit(130);
+    controller.abort("Interrupted (Ctrl-C)");
+    console.error("\nInterrupted — finishing with a partial report. Press Ctrl-C again to quit immediately.");
+  };
+  process.on("SIGINT", onInterrupt);
+
+  return { signal: controller.signal, stop: () => process.off("SIGINT", onInterrupt) };
+}
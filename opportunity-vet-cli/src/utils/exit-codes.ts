@@ -0,0 +1,38 @@
+import type { DecisionPacket } from "../openai/schemas/packet.zod.js";
+
+export type Decision = DecisionPacket["rubric"]["decision"];
+
+const DECISIONS: Decision[] = ["GO", "NO_GO", "UNCLEAR"];
+
+/**
+ * Exit code of a run whose decision is listed in `--fail-on`, one per decision so a script
+ * can tell them apart. 1 stays the code for errors and 130 for partial (cancelled) runs.
+ */
+export const DECISION_EXIT_CODES: Record<Decision, number> = {
+  NO_GO: 2,
+  UNCLEAR: 3,
+  GO: 4,
+};
+
+/**
+ * Parse a comma-separated `--fail-on` list such as "NO_GO,UNCLEAR" (case-insensitive).
+ */
+export function parseFailOn(value: string): Decision[] {
+  return value
+    .split(",")
+    .map((d) => d.trim().toUpperCase())
+    .filter((d) => d.length > 0)
+    .map((d) => {
+      if (!DECISIONS.includes(d as Decision)) {
+        throw new Error(`--fail-on: unknown decision "${d}". Expected one of: ${DECISIONS.join(", ")}`);
+      }
+      return d as Decision;
+    });
+}
+
+/**
+ * 0 unless `decision` is one of `failOn`.
+ */
+export function decisionExitCode(decision: Decision, failOn: Decision[]): number {
+  return failOn.includes(decision) ? DECISION_EXIT_CODES[decision] : 0;
+}
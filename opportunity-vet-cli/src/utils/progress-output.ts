@@ -0,0 +1,85 @@
+import type { ProgressEvent, ProgressHandler } from "./progress.js";
+import { renderSpinner } from "./spinner.js";
+
+export type ProgressMode = "ndjson" | "plain" | "spinner";
+
+const PROGRESS_MODES: ProgressMode[] = ["ndjson", "plain", "spinner"];
+
+export function parseProgressMode(value: string): ProgressMode {
+  if (!PROGRESS_MODES.includes(value as ProgressMode)) {
+    throw new Error(`Unknown progress mode "${value}". Expected one of: ${PROGRESS_MODES.join(", ")}`);
+  }
+  return value as ProgressMode;
+}
+
+/**
+ * Spinners only on a terminal; piped or CI output gets plain lines.
+ */
+export function defaultProgressMode(isTTY: boolean | undefined): ProgressMode {
+  return isTTY ? "spinner" : "plain";
+}
+
+/**
+ * One JSON object per line: the event plus a timestamp.
+ */
+export function formatNdjsonEvent(event: ProgressEvent, now: Date = new Date()): string {
+  return JSON.stringify({ ts: now.toISOString(), ...event });
+}
+
+const PLAIN_SYMBOLS: Record<ProgressEvent["type"], string> = {
+  start: "-",
+  update: "-",
+  succeed: "✔",
+  fail: "✖",
+  warn: "⚠",
+  info: "",
+};
+
+/**
+ * A step event as a log line; finish lines end with the step's duration and tokens.
+ * `openText` is the text of the step still open, used when a finish event has none.
+ */
+export function formatPlainEvent(event: ProgressEvent, openText?: string): string {
+  if (event.type === "info") return event.text ?? "";
+  const text = event.text ?? openText ?? "";
+  const stats: string[] = [];
+  if (typeof event.details?.durationMs === "number") stats.push(`${(event.details.durationMs / 1000).toFixed(1)}s`);
+  if (typeof event.details?.tokensUsed === "number") stats.push(`${event.details.tokensUsed.toLocaleString()} tokens`);
+  return `${PLAIN_SYMBOLS[event.type]} ${text}${stats.length > 0 ? ` (${stats.join(", ")})` : ""}`;
+}
+
+/**
+ * The progress handler for a mode. Step lines go to stderr like the spinners; `info` lines
+ * stay on stdout unless `infoToStderr` (for `--json`). In ndjson mode stderr carries only
+ * step starts and finishes; `info` text stays on stdout, or is dropped with `--json` so
+ * neither stream gets free text.
+ */
+export function createProgressRenderer(mode: ProgressMode, infoToStderr = false): ProgressHandler {
+  const writeInfo = infoToStderr ? console.error : console.log;
+  if (mode === "spinner") return (event) => renderSpinner(event, writeInfo);
+  if (mode === "ndjson") {
+    return (event) => {
+      if (event.type === "info") {
+        if (!infoToStderr) writeInfo(formatPlainEvent(event));
+        return;
+      }
+      if (event.type === "update") return;
+      process.stderr.write(formatNdjsonEvent(event) + "\n");
+    };
+  }
+
+  let openText: string | undefined;
+  return (event) => {
+    if (event.type === "info") {
+      writeInfo(formatPlainEvent(event));
+      return;
+    }
+    // Spinners redraw updates in place; as lines they would only repeat the step
+    if (event.type === "update") {
+      openText = event.text ?? openText;
+      return;
+    }
+    process.stderr.write(formatPlainEvent(event, openText) + "\n");
+    openText = event.type === "start" ? event.text : undefined;
+  };
+}
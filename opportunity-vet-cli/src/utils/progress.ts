@@ -0,0 +1,66 @@
+import type { EventEmitter } from "node:events";
+import { renderSpinner } from "./spinner.js";
+
+/**
+ * One progress update from a run. `start` opens a step, `update` changes its text and
+ * `succeed`/`fail`/`warn` close it; `info` is a standalone line (idea lists, verbose detail).
+ */
+export interface ProgressEvent {
+  type: "start" | "update" | "succeed" | "fail" | "warn" | "info";
+  text?: string;
+  /** Run the step belongs to (each brainstorm idea has its own) */
+  runId?: string;
+  /** Pipeline stage: scout, dedupe, verify, analyst, skeptic, referee, ideator, salvage or budget */
+  stage?: string;
+  iteration?: number;
+  /** On `succeed`: the step's counts, tokens (`tokensUsed`) and duration (`durationMs`) */
+  details?: Record<string, unknown>;
+}
+
+/** Where a step sits in the pipeline, attached to its start and finish events */
+export type StepContext = Pick<ProgressEvent, "runId" | "stage" | "iteration" | "details">;
+
+export type ProgressHandler = (event: ProgressEvent) => void;
+
+export interface VetEventMap {
+  progress: [ProgressEvent];
+}
+
+/** Emitter the library API reports progress on */
+export type VetEvents = EventEmitter<VetEventMap>;
+
+// The CLI draws spinners; the library API swaps in its caller's emitter
+let _handler: ProgressHandler = (event) => renderSpinner(event);
+
+/**
+ * Send progress to `handler` instead of the current one. Returns the previous handler.
+ */
+export function setProgressHandler(handler: ProgressHandler): ProgressHandler {
+  const previous = _handler;
+  _handler = handler;
+  return previous;
+}
+
+export function startStep(text: string, context?: StepContext): void {
+  _handler({ type: "start", text, ...context });
+}
+
+export function updateStep(text: string): void {
+  _handler({ type: "update", text });
+}
+
+export function succeedStep(text?: string, context?: StepContext): void {
+  _handler({ type: "succeed", text, ...context });
+}
+
+export function failStep(text?: string, context?: StepContext): void {
+  _handler({ type: "fail", text, ...context });
+}
+
+export function warnStep(text: string, context?: StepContext): void {
+  _handler({ type: "warn", text, ...context });
+}
+
+export function info(text: string): void {
+  _handler({ type: "info", text });
+}
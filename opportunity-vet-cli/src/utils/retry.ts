@@ -1,11 +1,55 @@
+import { CancelledError } from "./cancel.js";
+
+/**
+ * Why a call failed, as far as retrying is concerned. Quota, content-filter and
+ * other client errors fail the same way every time, so they are never retried.
+ */
+export type ErrorKind =
+  | "rate_limit"
+  | "quota_exhausted"
+  | "content_filter"
+  | "server"
+  | "network"
+  | "timeout"
+  | "other";
+
+const RETRYABLE_KINDS: ErrorKind[] = ["rate_limit", "server", "network", "timeout"];
+
+export interface RetryEvent {
+  /** The attempt that failed (1-based) */
+  attempt: number;
+  kind: ErrorKind;
+  status?: number;
+  /** Wait before the next attempt */
+  delayMs: number;
+  /** Whether the wait came from a Retry-After or rate-limit reset header */
+  fromHeader: boolean;
+  message: string;
+}
+
 export interface RetryOptions {
   maxAttempts?: number;
   baseDelayMs?: number;
+  /** Cap on a single computed backoff (header-directed waits may be longer, up to the total) */
+  maxDelayMs?: number;
+  /** Total wait across retries: a longer wait is cut to what remains, and retrying stops once it is spent */
+  maxTotalWaitMs?: number;
   retryableStatuses?: number[];
+  /** Once aborted, no further attempts are made and the wait between them ends early */
+  signal?: AbortSignal;
+  /** Called before each wait, e.g. to log the retry */
+  onRetry?: (event: RetryEvent) => void;
+  /** Source of jitter in [0, 1); swappable for tests */
+  random?: () => number;
 }
 
-const DEFAULT_RETRYABLE = [429, 500, 502, 503];
+const DEFAULT_RETRYABLE = [429, 500, 502, 503, 504];
 
+/**
+ * Run `fn`, retrying rate limits, server errors, timeouts and network failures.
+ * Waits honor `Retry-After` / `retry-after-ms` and OpenAI's rate-limit reset headers;
+ * otherwise the backoff is exponential with full jitter.
+ */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
@@ -13,56 +57,183 @@ export async function withRetry<T>(
   const {
     maxAttempts = 3,
     baseDelayMs = 1000,
+    maxDelayMs = 30_000,
+    maxTotalWaitMs = 120_000,
     retryableStatuses = DEFAULT_RETRYABLE,
+    signal,
+    onRetry,
+    random = Math.random,
   } = options;
 
   let lastError: unknown;
+  let waitedMs = 0;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (signal?.aborted) {
+      throw new CancelledError(String(signal.reason));
+    }
     try {
       return await fn();
     } catch (error: unknown) {
       lastError = error;
 
-      const status = getErrorStatus(error);
-      const isRetryable =
-        status !== undefined && retryableStatuses.includes(status);
-      const isNetworkError = isNetworkLikeError(error);
+      if (signal?.aborted) {
+        throw new CancelledError(String(signal.reason));
+      }
 
-      if (!isRetryable && !isNetworkError) {
+      const kind = classifyError(error);
+      const status = getErrorStatus(error);
+      const retryable =
+        RETRYABLE_KINDS.includes(kind) &&
+        (status === undefined || retryableStatuses.includes(status));
+      if (!retryable || attempt === maxAttempts) {
         throw error;
       }
 
-      if (attempt < maxAttempts) {
-        const delay = baseDelayMs * Math.pow(3, attempt - 1);
-        await sleep(delay);
+      const remainingMs = maxTotalWaitMs - waitedMs;
+      if (remainingMs <= 0) {
+        throw error;
       }
+      const headerDelay = retryAfterMs(error);
+      const delayMs = Math.min(
+        headerDelay ?? Math.round(random() * Math.min(maxDelayMs, baseDelayMs * Math.pow(3, attempt - 1))),
+        remainingMs
+      );
+
+      onRetry?.({
+        attempt,
+        kind,
+        status,
+        delayMs,
+        fromHeader: headerDelay !== undefined,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      waitedMs += delayMs;
+      await sleep(delayMs, signal);
     }
   }
 
   throw lastError;
 }
 
+/**
+ * Classify an OpenAI SDK (or fetch) error. A 429 is a rate limit unless its code says
+ * the account is out of quota.
+ */
+export function classifyError(error: unknown): ErrorKind {
+  const status = getErrorStatus(error);
+  const code = getErrorField(error, "code");
+  const type = getErrorField(error, "type");
+
+  if (code === "insufficient_quota" || type === "insufficient_quota") return "quota_exhausted";
+  if (code === "content_filter" || code === "content_policy_violation") return "content_filter";
+  if (status === 429) return "rate_limit";
+  if (status !== undefined && status >= 500) return "server";
+  if (status !== undefined) return "other";
+
+  if (error instanceof Error) {
+    const msg = error.message.toLowerCase();
+    if (msg.includes("timeout") || msg.includes("timed out")) return "timeout";
+    if (
+      msg.includes("econnreset") ||
+      msg.includes("econnrefused") ||
+      msg.includes("fetch failed") ||
+      msg.includes("connection error")
+    ) {
+      return "network";
+    }
+  }
+  return "other";
+}
+
+/**
+ * Wait the server asked for, from `retry-after-ms`, `Retry-After` (seconds or an
+ * HTTP date) or, failing those and only for a rate limit, OpenAI's `x-ratelimit-reset-*`
+ * header for the limit that ran out. OpenAI sends the reset headers on every response,
+ * so they say nothing about a server error or about a limit that still has room.
+ */
+export function retryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const header = (name: string) => getHeader(error, name);
+
+  const ms = Number(header("retry-after-ms"));
+  if (header("retry-after-ms") && Number.isFinite(ms) && ms >= 0) return Math.round(ms);
+
+  const retryAfter = header("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return Math.round(seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  if (classifyError(error) !== "rate_limit") return undefined;
+  const resets = exhaustedLimits(error)
+    .map((limit) => parseDuration(header(`x-ratelimit-reset-${limit}`)))
+    .filter((d): d is number => d !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+// The limits a 429 ran out of: those with no requests or tokens remaining, else the one
+// its message names ("Rate limit reached ... on tokens per min")
+function exhaustedLimits(error: unknown): Array<"requests" | "tokens"> {
+  const limits = (["requests", "tokens"] as const).filter(
+    (limit) => getHeader(error, `x-ratelimit-remaining-${limit}`)?.trim() === "0"
+  );
+  if (limits.length > 0) return limits;
+  const named = error instanceof Error ? /\bon (requests|tokens) per\b/i.exec(error.message) : null;
+  return named ? [named[1].toLowerCase() as "requests" | "tokens"] : [];
+}
+
+/**
+ * Go-style durations as sent in OpenAI's reset headers: "20ms", "1.5s", "6m0s", "1h2m3s".
+ */
+export function parseDuration(value: string | undefined): number | undefined {
+  const text = value?.trim();
+  if (!text || !/^(\d+(\.\d+)?(ms|h|m|s))+$/.test(text)) return undefined;
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  let total = 0;
+  for (const [, amount, , unit] of text.matchAll(/(\d+(\.\d+)?)(ms|h|m|s)/g)) {
+    total += Number(amount) * unitMs[unit];
+  }
+  return Math.round(total);
+}
+
 function getErrorStatus(error: unknown): number | undefined {
   if (error && typeof error === "object" && "status" in error) {
-    return (error as { status: number }).status;
+    const status = (error as { status: unknown }).status;
+    return typeof status === "number" ? status : undefined;
   }
   return undefined;
 }
 
-function isNetworkLikeError(error: unknown): boolean {
-  if (error instanceof Error) {
-    const msg = error.message.toLowerCase();
-    return (
-      msg.includes("timeout") ||
-      msg.includes("econnreset") ||
-      msg.includes("econnrefused") ||
-      msg.includes("fetch failed")
-    );
+function getErrorField(error: unknown, field: "code" | "type"): string | undefined {
+  if (!error || typeof error !== "object") return undefined;
+  const value = (error as Record<string, unknown>)[field];
+  if (typeof value === "string") return value;
+  // Some SDK versions only keep the body under `error`
+  const body = (error as { error?: Record<string, unknown> }).error;
+  return body && typeof body[field] === "string" ? (body[field] as string) : undefined;
+}
+
+function getHeader(error: unknown, name: string): string | undefined {
+  if (!error || typeof error !== "object" || !("headers" in error)) return undefined;
+  const headers = (error as { headers: unknown }).headers;
+  if (!headers || typeof headers !== "object") return undefined;
+  if (typeof (headers as { get?: unknown }).get === "function") {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
   }
-  return false;
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
 }
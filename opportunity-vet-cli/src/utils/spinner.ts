@@ -1,30 +1,49 @@
 import ora, { type Ora } from "ora";
+import type { ProgressEvent } from "./progress.js";
 
 let current: Ora | null = null;
 
-export function startStep(text: string): void {
-  if (current) {
-    current.succeed();
-  }
-  current = ora(text).start();
-}
-
-export function updateStep(text: string): void {
-  if (current) {
-    current.text = text;
-  }
-}
-
-export function succeedStep(text?: string): void {
-  if (current) {
-    current.succeed(text);
-    current = null;
-  }
-}
-
-export function failStep(text?: string): void {
-  if (current) {
-    current.fail(text);
-    current = null;
+/**
+ * Draw progress events as ora spinners (the CLI's progress handler). `info` lines go
+ * through `writeInfo`, stdout by default.
+ */
+export function renderSpinner(event: ProgressEvent, writeInfo: (line: string) => void = console.log): void {
+  switch (event.type) {
+    case "start":
+      if (current) {
+        current.succeed();
+      }
+      current = ora(event.text).start();
+      break;
+    case "update":
+      if (current) {
+        current.text = event.text ?? current.text;
+      }
+      break;
+    case "succeed":
+      if (current) {
+        current.succeed(event.text);
+        current = null;
+      }
+      break;
+    case "fail":
+      if (current) {
+        current.fail(event.text);
+        current = null;
+      }
+      break;
+    case "warn":
+      if (current) {
+        current.warn(event.text);
+        current = null;
+      } else {
+        ora().warn(event.text);
+      }
+      break;
+    case "info":
+      current?.clear();
+      writeInfo(event.text ?? "");
+      current?.render();
+      break;
   }
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { checkBudget, estimateCallSpend, measureSpend } from "../src/pipeline/budget.js";
+import type { StageUsage } from "../src/providers/types.js";
+
+const pricing = {
+  "test-model": { input: 1, cachedInput: 1, output: 1, webSearchPer1k: 0 },
+};
+
+function makeUsage(overrides: Partial<StageUsage> = {}): StageUsage {
+  return {
+    stage: "analyst",
+    model: "test-model",
+    calls: 1,
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    webSearchCalls: 0,
+    ...overrides,
+  };
+}
+
+describe("measureSpend", () => {
+  it("sums tokens and cost across stages", () => {
+    const spend = measureSpend(
+      [makeUsage({ inputTokens: 300_000 }), makeUsage({ stage: "skeptic", outputTokens: 200_000 })],
+      pricing
+    );
+    expect(spend.tokens).toBe(500_000);
+    expect(spend.cost).toBeCloseTo(0.5);
+  });
+});
+
+describe("estimateCallSpend", () => {
+  it("averages per call over the chosen stages and scales", () => {
+    const usage = [
+      makeUsage({ calls: 2, inputTokens: 200_000 }),
+      makeUsage({ stage: "scout-search", inputTokens: 5_000_000 }),
+    ];
+    const estimate = estimateCallSpend(usage, ["analyst"], pricing, 1.5);
+    expect(estimate.tokens).toBe(150_000);
+    expect(estimate.cost).toBeCloseTo(0.15);
+  });
+
+  it("returns zero when the stages have not run", () => {
+    expect(estimateCallSpend([], ["referee"], pricing)).toEqual({ cost: 0, tokens: 0 });
+  });
+});
+
+describe("checkBudget", () => {
+  it("passes when the projection fits", () => {
+    expect(checkBudget({ maxCost: 1 }, { cost: 0.4, tokens: 0 }, { cost: 0.5, tokens: 0 })).toBeNull();
+  });
+
+  it("explains a cost overrun", () => {
+    const reason = checkBudget({ maxCost: 0.5 }, { cost: 0.4, tokens: 0 }, { cost: 0.2, tokens: 0 });
+    expect(reason).toMatch(/\$0.5 budget/);
+  });
+
+  it("explains a token overrun", () => {
+    const reason = checkBudget({ maxTokens: 1000 }, { cost: 0, tokens: 900 }, { cost: 0, tokens: 200 });
+    expect(reason).toMatch(/token budget/);
+  });
+
+  it("ignores limits that are not set", () => {
+    expect(checkBudget({}, { cost: 100, tokens: 1e9 }, { cost: 100, tokens: 1e9 })).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { startCancellable, cancelReason, isCancelled } from "../src/utils/cancel.js";
+
+describe("startCancellable", () => {
+  it("cancels with the caller's reason when their signal aborts", () => {
+    const controller = new AbortController();
+    const stop = startCancellable({ signal: controller.signal });
+    expect(isCancelled()).toBe(false);
+    controller.abort("Shutting down");
+    expect(cancelReason()).toBe("Shutting down");
+    stop();
+  });
+
+  it("cancels at once when the signal is already aborted", () => {
+    const stop = startCancellable({ signal: AbortSignal.abort() });
+    expect(cancelReason()).toBe("Cancelled by caller");
+    stop();
+  });
+
+  it("starts fresh for each command and times out", async () => {
+    const stop = startCancellable({ timeoutMs: 10 });
+    expect(isCancelled()).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(cancelReason()).toBe("Run timed out after 0s");
+    stop();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  createCassette,
+  createRecordingProvider,
+  createReplayProvider,
+  CassetteMissError,
+} from "../src/providers/cassette.js";
+import type { ChatRequest, LLMProvider } from "../src/providers/types.js";
+
+function makeFakeProvider(): LLMProvider {
+  let calls = 0;
+  return {
+    name: "openai",
+    model: "gpt-4o",
+    supportsWebSearch: true,
+    supportsStructuredOutput: true,
+    async chat(request) {
+      calls++;
+      return { text: `${request.stage} response ${calls}`, usage: { inputTokens: 10, outputTokens: 5 } };
+    },
+  };
+}
+
+function makeRequest(overrides: Partial<ChatRequest> = {}): ChatRequest {
+  return {
+    stage: "analyst",
+    attempt: 0,
+    systemPrompt: "system",
+    userPrompt: "user",
+    ...overrides,
+  };
+}
+
+describe("cassette record/replay", () => {
+  it("replays recorded responses in order", async () => {
+    const live = makeFakeProvider();
+    const cassette = createCassette(live);
+    const recorder = createRecordingProvider(live, cassette);
+
+    await recorder.chat(makeRequest());
+    await recorder.chat(makeRequest());
+    await recorder.chat(makeRequest({ stage: "skeptic" }));
+    expect(cassette.entries).toHaveLength(3);
+
+    const replay = createReplayProvider(cassette);
+    expect((await replay.chat(makeRequest())).text).toBe("analyst response 1");
+    expect((await replay.chat(makeRequest())).text).toBe("analyst response 2");
+    expect((await replay.chat(makeRequest({ stage: "skeptic" }))).text).toBe("skeptic response 3");
+  });
+
+  it("keeps provider details from the recording", () => {
+    const cassette = createCassette(makeFakeProvider());
+    const replay = createReplayProvider(cassette);
+    expect(replay.name).toBe("openai");
+    expect(replay.model).toBe("gpt-4o");
+    expect(replay.supportsWebSearch).toBe(true);
+  });
+
+  it("throws on a changed prompt", async () => {
+    const live = makeFakeProvider();
+    const cassette = createCassette(live);
+    await createRecordingProvider(live, cassette).chat(makeRequest());
+
+    const replay = createReplayProvider(cassette);
+    await expect(replay.chat(makeRequest({ userPrompt: "different" }))).rejects.toThrow(CassetteMissError);
+  });
+
+  it("throws on a different attempt", async () => {
+    const live = makeFakeProvider();
+    const cassette = createCassette(live);
+    await createRecordingProvider(live, cassette).chat(makeRequest());
+
+    const replay = createReplayProvider(cassette);
+    await expect(replay.chat(makeRequest({ attempt: 1 }))).rejects.toThrow(CassetteMissError);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { usageDelta } from "../src/pipeline/checkpoint.js";
+import type { StageUsage } from "../src/providers/index.js";
+
+function usage(stage: StageUsage["stage"], model: string, calls: number, tokens: number): StageUsage {
+  return {
+    stage,
+    model,
+    calls,
+    inputTokens: tokens,
+    cachedInputTokens: 0,
+    outputTokens: tokens / 10,
+    webSearchCalls: 0,
+  };
+}
+
+describe("usageDelta", () => {
+  it("returns only what was added between the snapshots", () => {
+    const before = [usage("scout", "gpt-4o", 2, 1000)];
+    const after = [usage("scout", "gpt-4o", 2, 1000), usage("analyst", "gpt-4o", 1, 500)];
+    expect(usageDelta(before, after)).toEqual([usage("analyst", "gpt-4o", 1, 500)]);
+  });
+
+  it("subtracts earlier calls to the same stage and model", () => {
+    const before = [usage("scout", "gpt-4o", 2, 1000)];
+    const after = [usage("scout", "gpt-4o", 3, 1600)];
+    expect(usageDelta(before, after)).toEqual([usage("scout", "gpt-4o", 1, 600)]);
+  });
+
+  it("keeps models apart", () => {
+    const before = [usage("analyst", "gpt-4o", 1, 500)];
+    const after = [usage("analyst", "gpt-4o", 1, 500), usage("analyst", "o3", 1, 800)];
+    expect(usageDelta(before, after)).toEqual([usage("analyst", "o3", 1, 800)]);
+  });
+
+  it("is empty when nothing ran", () => {
+    expect(usageDelta([], [])).toEqual([]);
+  });
+});
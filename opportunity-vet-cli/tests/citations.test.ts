@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { markCited, uncitedWarning } from "../src/pipeline/citations.js";
+import type { EvidenceItem } from "../src/openai/schemas/scout.zod.js";
+
+function makeItem(url: string, cited?: boolean): EvidenceItem {
+  return {
+    url,
+    sourceType: "forum",
+    quote: "Invoicing takes forever",
+    theme: "pain",
+    sentiment: "negative",
+    credibility: 3,
+    ...(cited !== undefined && { cited }),
+  };
+}
+
+describe("markCited", () => {
+  it("matches ignoring scheme, www, query string and trailing slash", () => {
+    const [item] = markCited(
+      [makeItem("http://reddit.com/r/freelance/comments/abc/")],
+      [{ url: "https://www.reddit.com/r/freelance/comments/abc?utm_source=openai" }]
+    );
+    expect(item.cited).toBe(true);
+  });
+
+  it("marks URLs missing from the citations as uncited", () => {
+    const [item] = markCited([makeItem("https://example.com/made-up")], [{ url: "https://example.com/real" }]);
+    expect(item.cited).toBe(false);
+  });
+});
+
+describe("uncitedWarning", () => {
+  it("warns when most checked evidence is uncited", () => {
+    const warning = uncitedWarning([makeItem("a", false), makeItem("b", false), makeItem("c", true)]);
+    expect(warning).toMatch(/^2 of 3 evidence items \(67%\)/);
+  });
+
+  it("stays quiet at or below half uncited", () => {
+    expect(uncitedWarning([makeItem("a", false), makeItem("b", true)])).toBeNull();
+  });
+
+  it("ignores evidence that was never checked", () => {
+    expect(uncitedWarning([makeItem("a"), makeItem("b")])).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import path from "node:path";
+import { describe, it, expect } from "vitest";
+import { parseConfigFile, resolveConfigFiles, configFilePaths } from "../src/config-file.js";
+import { mergeConfig, type Config } from "../src/config.js";
+import { DEFAULT_RUBRIC_SETTINGS } from "../src/pipeline/scoring.js";
+
+const base: Config = {
+  provider: "openai",
+  openaiApiKey: "",
+  openaiModel: "gpt-4o",
+  localBaseUrl: "http://localhost:11434/v1",
+  localModel: "llama3.1",
+  localApiKey: "local",
+  localStructuredOutput: false,
+  outputDir: "/work/reports",
+  dbPath: "/work/.data/vet.db",
+  searchCacheTtlHours: 168,
+  stageSettings: {},
+  promptsDir: "/work/prompts",
+  contextTokenBudget: 12000,
+  callTimeoutMs: 600_000,
+  retryMaxWaitMs: 120_000,
+  credibility: {},
+  rubric: DEFAULT_RUBRIC_SETTINGS,
+  runDefaults: {},
+  skepticPanel: ["red-team"],
+  skepticPersonas: {},
+};
+
+describe("parseConfigFile", () => {
+  it("lists every invalid key with the file it came from", () => {
+    expect(() =>
+      parseConfigFile({ depth: 9, credibility: { "g2.com": 9 }, profiles: { cheap: { modle: "x" } } }, "/p/vet.config.json")
+    ).toThrow(/Invalid config file \/p\/vet.config.json:\n {2}depth: .*\n {2}credibility\.g2\.com: .*\n {2}profiles\.cheap: Unrecognized key\(s\) in object: 'modle'/);
+  });
+
+  it("rejects unknown stages", () => {
+    expect(() => parseConfigFile({ stages: { judge: { model: "gpt-4.1" } } }, "f")).toThrow(/stages: Unrecognized key/);
+  });
+});
+
+describe("resolveConfigFiles", () => {
+  const user = {
+    file: "/home/me/.config/vet/vet.config.json",
+    config: parseConfigFile({
+      openaiModel: "gpt-4o",
+      outputDir: "vet-reports",
+      defaultProfile: "cheap",
+      profiles: { cheap: { openaiModel: "gpt-4o-mini", depth: 1, maxCost: 0.5 } },
+    }, "user"),
+  };
+  const project = {
+    file: "/work/app/vet.config.json",
+    config: parseConfigFile({
+      credibility: { "internal-wiki.io": 5 },
+      profiles: {
+        cheap: { maxCost: 0.25 },
+        thorough: { depth: 2, verifyQuotes: true, rubric: { minEvidence: 15 } },
+      },
+    }, "project"),
+  };
+
+  it("merges a profile across files and resolves paths against their file", () => {
+    const loaded = resolveConfigFiles([user, project]);
+    expect(loaded.profileName).toBe("cheap");
+    expect(loaded.settings.outputDir).toBe(path.resolve("/home/me/.config/vet/vet-reports"));
+    expect(loaded.settings.credibility).toEqual({ "internal-wiki.io": 5 });
+    expect(loaded.profile.openaiModel).toBe("gpt-4o-mini");
+    expect(loaded.profile.runDefaults).toEqual({ depth: 1, maxCost: 0.25 });
+  });
+
+  it("prefers an explicit profile over defaultProfile and rejects unknown ones", () => {
+    expect(resolveConfigFiles([user, project], "thorough").profile.runDefaults).toEqual({ depth: 2, verifyQuotes: true });
+    expect(() => resolveConfigFiles([user, project], "fast")).toThrow('Unknown profile "fast". Available profiles: cheap, thorough');
+  });
+
+  it("ranks profile over environment over file settings", () => {
+    const loaded = resolveConfigFiles([user, project], "thorough");
+    const config = mergeConfig(base, loaded.settings, { openaiModel: "gpt-4.1", contextTokenBudget: undefined }, loaded.profile);
+    expect(config.openaiModel).toBe("gpt-4.1");
+    expect(config.contextTokenBudget).toBe(12000);
+    expect(config.rubric).toEqual({ ...DEFAULT_RUBRIC_SETTINGS, minEvidence: 15 });
+    expect(mergeConfig(config, { openaiModel: "o3" }).openaiModel).toBe("o3");
+  });
+});
+
+describe("configFilePaths", () => {
+  it("reads the user file before the project file", () => {
+    expect(configFilePaths("/work", { XDG_CONFIG_HOME: "/xdg" })).toEqual([
+      path.join("/xdg", "vet", "vet.config.json"),
+      path.join("/work", "vet.config.json"),
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { parseStageSettings } from "../src/config.js";
+import { formatStageModels } from "../src/pipeline/report.js";
+
+describe("parseStageSettings", () => {
+  it("merges models, temperatures and reasoning efforts per stage", () => {
+    const settings = parseStageSettings({
+      models: "referee=gpt-4.1, scout-structure=gpt-4o-mini",
+      temperatures: "referee=0.2",
+      reasoningEfforts: "skeptic=high",
+    });
+    expect(settings).toEqual({
+      referee: { model: "gpt-4.1", temperature: 0.2 },
+      "scout-structure": { model: "gpt-4o-mini" },
+      skeptic: { reasoningEffort: "high" },
+    });
+  });
+
+  it("returns no overrides when nothing is set", () => {
+    expect(parseStageSettings({})).toEqual({});
+  });
+
+  it("rejects unknown stages", () => {
+    expect(() => parseStageSettings({ models: "judge=gpt-4.1" })).toThrow(/unknown stage "judge"/);
+  });
+
+  it("rejects malformed pairs and values", () => {
+    expect(() => parseStageSettings({ models: "referee" })).toThrow(/expected stage=value/);
+    expect(() => parseStageSettings({ temperatures: "referee=hot" })).toThrow(/not a temperature/);
+    expect(() => parseStageSettings({ reasoningEfforts: "referee=max" })).toThrow(/must be one of/);
+  });
+});
+
+describe("formatStageModels", () => {
+  it("groups stages that ran on a non-default model", () => {
+    expect(
+      formatStageModels("gpt-4o", {
+        "scout-search": "gpt-4o",
+        "scout-structure": "gpt-4o-mini",
+        skeptic: "gpt-4.1",
+        referee: "gpt-4.1",
+      })
+    ).toBe(" (scout-structure: gpt-4o-mini; skeptic, referee: gpt-4.1)");
+  });
+
+  it("is empty when every stage used the default", () => {
+    expect(formatStageModels("gpt-4o", { analyst: "gpt-4o" })).toBe("");
+    expect(formatStageModels("gpt-4o")).toBe("");
+  });
+});
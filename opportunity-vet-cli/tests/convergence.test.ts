@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkEvidenceGrowth,
+  checkRubricChange,
+  resolveConvergence,
+  rubricChange,
+  stoppedEarly,
+  DEFAULT_CONVERGENCE,
+} from "../src/pipeline/convergence.js";
+
+const rubric = {
+  painIntensity: 3,
+  frequency: 3,
+  buyerClarity: 3,
+  budgetSignal: 3,
+  switchingCost: 3,
+  competition: 3,
+  distributionFeasibility: 3,
+};
+
+describe("checkEvidenceGrowth", () => {
+  const settings = resolveConvergence({ minNewEvidence: 3, minNewDomains: 2 });
+  const growth = (evidence: number, domains: number, competitors = 2) => ({ evidence, domains, competitors });
+
+  it("keeps going while each pass adds enough evidence and domains", () => {
+    expect(checkEvidenceGrowth(growth(10, 4), growth(14, 6), settings, 2)).toBeNull();
+  });
+
+  it("stops when a pass adds too few evidence items or domains", () => {
+    expect(checkEvidenceGrowth(growth(10, 4), growth(12, 6), settings, 2)).toEqual({
+      code: "evidence",
+      message: "Converged at iteration 2: 2 new evidence item(s), fewer than 3.",
+    });
+    expect(checkEvidenceGrowth(growth(10, 4), growth(15, 5), settings, 3)?.code).toBe("domains");
+  });
+
+  it("keeps going when a pass found a new competitor", () => {
+    expect(checkEvidenceGrowth(growth(10, 4), growth(10, 4, 3), settings, 2)).toBeNull();
+  });
+
+  it("skips checks set to 0", () => {
+    const off = resolveConvergence({ minNewEvidence: 0, minNewDomains: 0 });
+    expect(checkEvidenceGrowth(growth(10, 4), growth(10, 4), off, 2)).toBeNull();
+  });
+});
+
+describe("checkRubricChange", () => {
+  it("sums the absolute change across scores", () => {
+    expect(rubricChange(rubric, { ...rubric, competition: 1, frequency: 4 })).toBe(3);
+  });
+
+  it("stops once the draft moves less than the minimum", () => {
+    expect(checkRubricChange(rubric, rubric, DEFAULT_CONVERGENCE, 2)?.code).toBe("rubric");
+    expect(checkRubricChange(rubric, { ...rubric, painIntensity: 4 }, DEFAULT_CONVERGENCE, 2)).toBeNull();
+    expect(checkRubricChange(rubric, rubric, resolveConvergence({ minRubricChange: 0 }), 2)).toBeNull();
+  });
+});
+
+describe("stoppedEarly", () => {
+  it("covers convergence and exhausted queries but not depth, budget or cancellation", () => {
+    expect(stoppedEarly({ code: "rubric", message: "" })).toBe(true);
+    expect(stoppedEarly({ code: "no-queries", message: "" })).toBe(true);
+    expect(stoppedEarly({ code: "depth", message: "" })).toBe(false);
+    expect(stoppedEarly({ code: "budget", message: "" })).toBe(false);
+    expect(stoppedEarly(undefined)).toBe(false);
+  });
+});
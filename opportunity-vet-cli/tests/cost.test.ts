@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { findPricing, priceUsage, DEFAULT_PRICING } from "../src/pipeline/cost.js";
+import type { StageUsage } from "../src/providers/types.js";
+
+function makeUsage(overrides: Partial<StageUsage> = {}): StageUsage {
+  return {
+    stage: "analyst",
+    model: "gpt-4o",
+    calls: 1,
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    webSearchCalls: 0,
+    ...overrides,
+  };
+}
+
+describe("findPricing", () => {
+  it("matches exact model names", () => {
+    expect(findPricing("gpt-4o-mini", DEFAULT_PRICING)).toBe(DEFAULT_PRICING["gpt-4o-mini"]);
+  });
+
+  it("falls back to the longest matching prefix for dated snapshots", () => {
+    expect(findPricing("gpt-4o-mini-2024-07-18", DEFAULT_PRICING)).toBe(DEFAULT_PRICING["gpt-4o-mini"]);
+    expect(findPricing("gpt-4o-2024-08-06", DEFAULT_PRICING)).toBe(DEFAULT_PRICING["gpt-4o"]);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(findPricing("llama3.1", DEFAULT_PRICING)).toBeUndefined();
+  });
+});
+
+describe("priceUsage", () => {
+  const table = {
+    "test-model": { input: 2, cachedInput: 1, output: 10, webSearchPer1k: 30 },
+  };
+
+  it("prices input, cached input and output separately", () => {
+    const { breakdown, totalCost } = priceUsage(
+      [makeUsage({ model: "test-model", inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 100_000 })],
+      table
+    );
+    // 600K uncached * $2 + 400K cached * $1 + 100K output * $10
+    expect(breakdown[0].cost).toBeCloseTo(1.2 + 0.4 + 1.0);
+    expect(totalCost).toBeCloseTo(2.6);
+  });
+
+  it("charges web search calls per thousand", () => {
+    const { totalCost } = priceUsage([makeUsage({ model: "test-model", webSearchCalls: 2 })], table);
+    expect(totalCost).toBeCloseTo(0.06);
+  });
+
+  it("sums stages and reports unpriced models", () => {
+    const { breakdown, totalCost, unpricedModels } = priceUsage(
+      [
+        makeUsage({ stage: "scout-search", model: "test-model", outputTokens: 1_000_000 }),
+        makeUsage({ stage: "referee", model: "mystery", outputTokens: 1_000_000 }),
+      ],
+      table
+    );
+    expect(breakdown).toHaveLength(2);
+    expect(breakdown[1].cost).toBe(0);
+    expect(totalCost).toBeCloseTo(10);
+    expect(unpricedModels).toEqual(["mystery"]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { formatDebugTimeline, type DebugLog } from "../src/pipeline/debug-log.js";
+
+function makeLog(overrides: Partial<DebugLog> = {}): DebugLog {
+  return {
+    runId: "abc123",
+    startedAt: "2026-01-01T10:00:00.000Z",
+    completedAt: "2026-01-01T10:01:30.000Z",
+    inputs: { idea: "Invoicing tool" },
+    iterations: [
+      {
+        iteration: 1,
+        steps: [
+          { step: "scout", evidenceCount: 12, competitorCount: 5, citations: 9, uncitedEvidence: 3, tokensUsed: 2400, durationMs: 41_000 },
+          { step: "dedupe", before: 12, after: 10, uniqueDomains: 6, durationMs: 2 },
+          { step: "analyst", painThemes: 3, wedgeOptions: 2, tokensUsed: 1800, durationMs: 12_300, fromCheckpoint: true },
+        ],
+      },
+    ],
+    referee: { step: "referee", tokensUsed: 2100, durationMs: 15_000 },
+    validationFailures: [],
+    killRuleOverrides: [],
+    budgetCutoffs: [],
+    calls: [],
+    packing: [],
+    retries: [],
+    totalTokens: 6300,
+    estimatedCost: 0.0123,
+    ...overrides,
+  };
+}
+
+describe("formatDebugTimeline", () => {
+  it("lists each step with duration, tokens and details", () => {
+    const text = formatDebugTimeline(makeLog());
+    expect(text).toContain("Run abc123 — started 2026-01-01 10:00:00 (90.0s)");
+    expect(text).toMatch(/scout\s+41\.0s\s+2,400 tok\s+12 evidence, 5 competitors, 9 citations, 3 uncited/);
+    expect(text).toMatch(/dedupe\s+0\.0s\s+12 → 10 items, 6 domains/);
+    expect(text).toContain("2 wedge options (from checkpoint)");
+    expect(text).toMatch(/Verdict\n\s+referee\s+15\.0s\s+2,100 tok/);
+  });
+
+  it("adds retries, validation failures and overrides only when present", () => {
+    expect(formatDebugTimeline(makeLog())).not.toContain("Retries");
+
+    const text = formatDebugTimeline(
+      makeLog({
+        retries: [{ stage: "analyst", attempt: 1, kind: "rate_limit", status: 429, delayMs: 2000, fromHeader: true, message: "slow down" }],
+        validationFailures: [{ stage: "referee", attempt: 0, error: "rubric.total: Required" }],
+        killRuleOverrides: ["Kill rule: no wedge"],
+      })
+    );
+    expect(text).toContain("Retries (1)\n  - analyst attempt 1: rate_limit 429, waited 2.0s (server-directed) — slow down");
+    expect(text).toContain("Validation failures (1)\n  - referee attempt 0: rubric.total: Required");
+    expect(text).toContain("Kill-rule overrides (1)\n  - Kill rule: no wedge");
+  });
+
+  it("explains a skipped Referee and a partial run", () => {
+    const text = formatDebugTimeline(
+      makeLog({ partial: "Interrupted (Ctrl-C)", referee: { step: "referee", skipped: "Interrupted (Ctrl-C)" } })
+    );
+    expect(text).toContain("Partial: Interrupted (Ctrl-C)");
+    expect(text).toContain("referee skipped: Interrupted (Ctrl-C)");
+  });
+
+  it("names the error of a failed run, which has no total duration", () => {
+    const text = formatDebugTimeline(makeLog({ completedAt: undefined, referee: undefined, error: "400 boom" }));
+    expect(text).toContain("Run abc123 — started 2026-01-01 10:00:00\nTokens:");
+    expect(text).toContain("Failed: 400 boom");
+    expect(text).not.toContain("Verdict");
+  });
+});
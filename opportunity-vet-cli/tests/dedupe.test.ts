@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { dedupeEvidence, getCredibility } from "../src/pipeline/dedupe.js";
+import { dedupeEvidence, evidenceId, getCredibility } from "../src/pipeline/dedupe.js";
 import type { EvidenceItem } from "../src/openai/schemas/scout.zod.js";
 
 describe("dedupeEvidence", () => {
@@ -41,6 +41,15 @@ describe("dedupeEvidence", () => {
     expect(result.uniqueDomains).toBe(3);
   });
 
+  it("gives each item an id from its normalized URL", () => {
+    const evidence: EvidenceItem[] = [
+      { url: "https://Example.com/Page/", sourceType: "review", quote: "Quote A", theme: "pain", sentiment: "negative", credibility: 3 },
+    ];
+    const [item] = dedupeEvidence(evidence).evidence;
+    expect(item.id).toMatch(/^ev-[0-9a-f]{6}$/);
+    expect(item.id).toBe(evidenceId("https://example.com/page"));
+  });
+
   it("keeps all unique items", () => {
     const evidence: EvidenceItem[] = [
       { url: "https://a.com/1", sourceType: "review", quote: "Q1", theme: "pain", sentiment: "negative", credibility: 3, complaints: [], gaps: [] },
@@ -76,4 +85,11 @@ describe("getCredibility", () => {
   it("returns 1 for top-10 URL", () => {
     expect(getCredibility("https://somesite.com/top-10-tools")).toBe(1);
   });
+
+  it("prefers configured tiers over the built-in ones", () => {
+    const overrides = { "reddit.com": 2, "internal-wiki.io": 5 };
+    expect(getCredibility("https://old.reddit.com/r/test", overrides)).toBe(2);
+    expect(getCredibility("https://internal-wiki.io/page", overrides)).toBe(5);
+    expect(getCredibility("https://www.g2.com/products/test", overrides)).toBe(5);
+  });
 });
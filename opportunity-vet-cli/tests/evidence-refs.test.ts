@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { createFootnotes, resolveEvidenceRefs } from "../src/pipeline/evidence-refs.js";
+import type { EvidenceItem } from "../src/openai/schemas/scout.zod.js";
+
+function makeItem(id: string, quote: string): EvidenceItem {
+  return {
+    id,
+    url: `https://reddit.com/r/freelance/${id}`,
+    sourceType: "forum",
+    quote,
+    theme: "pain",
+    sentiment: "negative",
+    credibility: 4,
+  };
+}
+
+const evidence = [makeItem("ev-aaaaaa", "Chasing invoices eats my Fridays"), makeItem("ev-bbbbbb", "I'd pay to never send a reminder")];
+
+describe("resolveEvidenceRefs", () => {
+  it("drops ids that match no evidence and lines lists up with the claims", () => {
+    const { refs, dropped } = resolveEvidenceRefs(
+      {
+        painThemes: [["ev-aaaaaa", "ev-zzzzzz"], ["ev-bbbbbb"], ["ev-aaaaaa"]],
+        wedgeOptions: [[" ev-bbbbbb", "ev-bbbbbb"]],
+        premortem: [],
+        reasons: [["ev-yyyyyy"]],
+      },
+      { painThemes: 2, wedgeOptions: 1, premortem: 2, reasons: 1 },
+      evidence
+    );
+    expect(refs).toEqual({
+      painThemes: [["ev-aaaaaa"], ["ev-bbbbbb"]],
+      wedgeOptions: [["ev-bbbbbb"]],
+      premortem: [[], []],
+      reasons: [[]],
+    });
+    expect(dropped).toEqual(["ev-zzzzzz", "ev-yyyyyy"]);
+  });
+
+  it("cites nothing when the model gave no refs", () => {
+    const { refs } = resolveEvidenceRefs(undefined, { painThemes: 1, wedgeOptions: 0, premortem: 0, reasons: 2 }, evidence);
+    expect(refs).toEqual({ painThemes: [[]], wedgeOptions: [], premortem: [], reasons: [[], []] });
+  });
+});
+
+describe("createFootnotes", () => {
+  it("numbers evidence in order of first citation and defines each once", () => {
+    const footnotes = createFootnotes(evidence);
+    expect(footnotes.cite(["ev-bbbbbb"])).toBe(" [^1]");
+    expect(footnotes.cite(["ev-aaaaaa", "ev-bbbbbb"])).toBe(" [^2][^1]");
+    expect(footnotes.cite([])).toBe("");
+    expect(footnotes.cite(undefined)).toBe("");
+    expect(footnotes.definitions()).toEqual([
+      `[^1]: "I'd pay to never send a reminder" — [forum](https://reddit.com/r/freelance/ev-bbbbbb) (ev-bbbbbb, credibility: 4/5)`,
+      `[^2]: "Chasing invoices eats my Fridays" — [forum](https://reddit.com/r/freelance/ev-aaaaaa) (ev-aaaaaa, credibility: 4/5)`,
+    ]);
+  });
+});
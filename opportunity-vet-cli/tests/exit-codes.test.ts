@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { parseFailOn, decisionExitCode, DECISION_EXIT_CODES } from "../src/utils/exit-codes.js";
+
+describe("parseFailOn", () => {
+  it("parses a comma-separated, case-insensitive list", () => {
+    expect(parseFailOn("NO_GO, unclear")).toEqual(["NO_GO", "UNCLEAR"]);
+  });
+
+  it("rejects unknown decisions", () => {
+    expect(() => parseFailOn("NO_GO,MAYBE")).toThrow('unknown decision "MAYBE"');
+  });
+});
+
+describe("decisionExitCode", () => {
+  it("gives each listed decision its own code and everything else 0", () => {
+    const failOn = parseFailOn("NO_GO,UNCLEAR");
+    expect(decisionExitCode("NO_GO", failOn)).toBe(2);
+    expect(decisionExitCode("UNCLEAR", failOn)).toBe(3);
+    expect(decisionExitCode("GO", failOn)).toBe(0);
+    expect(decisionExitCode("NO_GO", [])).toBe(0);
+  });
+
+  it("never collides with the error and partial-run codes", () => {
+    const codes = Object.values(DECISION_EXIT_CODES);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(codes).not.toContain(1);
+    expect(codes).not.toContain(130);
+  });
+});
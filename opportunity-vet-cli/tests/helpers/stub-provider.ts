@@ -0,0 +1,132 @@
+import type { ChatRequest, ChatResponse, LLMProvider, StageName } from "../../src/providers/index.js";
+
+/**
+ * A model provider for pipeline-level tests: canned replies per stage, overridable per test.
+ * Test files route the configured provider to it with
+ *
+ *   vi.mock("../src/providers/index.js", async (importOriginal) => {
+ *     const { stubProvider } = await import("./helpers/stub-provider.js");
+ *     return { ...(await importOriginal<typeof import("../src/providers/index.js")>()), createProvider: () => stubProvider };
+ *   });
+ *
+ * and pass `provider: "local"` in the config so no API key is needed.
+ */
+
+/** Returns the reply text, or throws to fail the call */
+export type StubReply = (request: ChatRequest, call: number) => string | Promise<string>;
+
+const rubric = {
+  painIntensity: 4,
+  frequency: 4,
+  buyerClarity: 3,
+  budgetSignal: 3,
+  switchingCost: 3,
+  competition: 3,
+  distributionFeasibility: 3,
+};
+
+const hosts = ["reddit.com", "g2.com", "capterra.com", "news.ycombinator.com", "example.com", "blog.io"];
+
+export function scoutReply(offset = 0, competitors = ["Comp A", "Comp B"]): string {
+  return JSON.stringify({
+    queries: ["invoicing pain"],
+    evidence: Array.from({ length: 12 }, (_, i) => ({
+      url: `https://${hosts[(i + offset) % hosts.length]}/post-${i + offset}`,
+      sourceType: "forum",
+      quote: `Invoicing takes me hours every week (${i + offset})`,
+      theme: "pain",
+      sentiment: "negative",
+      credibility: 3,
+    })),
+    competitors: competitors.map((name) => ({
+      name,
+      url: `https://${name.toLowerCase().replace(/\s+/g, "")}.com`,
+      positioning: "invoicing",
+      pricingSignals: "$10/mo",
+      complaints: ["slow"],
+      gaps: ["no API"],
+    })),
+  });
+}
+
+export const analystReply = JSON.stringify({
+  painThemes: ["late payments", "manual entry"],
+  whoPays: "freelancers",
+  whyNow: "AI",
+  wedgeOptions: [{ wedge: "Plumbers", whyWorks: "underserved", mvp: "invoice from a photo" }],
+  rubricDraft: { ...rubric, reasons: ["strong pain"] },
+  premortem: ["incumbents bundle it"],
+  nextTests: ["interview 10 plumbers"],
+});
+
+export function skepticReply(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    counterarguments: ["QuickBooks is good enough"],
+    alreadySolvedNotes: [],
+    missedCompetitors: [],
+    missingEvidenceQueries: ["plumber invoicing complaints"],
+    decisionSuggestion: { decision: "UNCLEAR", reasons: ["thin evidence"] },
+    ...overrides,
+  });
+}
+
+export const refereeReply = JSON.stringify({
+  analysis: {
+    painThemes: ["late payments"],
+    whoPays: "freelancers",
+    whyNow: "AI",
+    wedgeOptions: [{ wedge: "Plumbers", whyWorks: "underserved", mvp: "invoice from a photo" }],
+    premortem: ["incumbents bundle it"],
+    nextTests: ["interview 10 plumbers"],
+  },
+  rubric: { ...rubric, evidenceStrength: 3, total: 26, decision: "GO", reasons: ["painful and frequent"] },
+});
+
+export const ideatorReply = JSON.stringify({
+  ideas: [0, 1, 2].map((i) => ({
+    name: `Idea ${i}`,
+    description: `Invoicing helper ${i}`,
+    targetCustomer: "plumbers",
+    revenueModel: "SaaS",
+    whyLowTime: "self-serve",
+  })),
+});
+
+const DEFAULT_REPLIES: Record<StageName, StubReply> = {
+  "scout-search": () => "Plumbers complain about invoicing on https://reddit.com/post-0",
+  "scout-structure": () => scoutReply(),
+  analyst: () => analystReply,
+  skeptic: () => skepticReply(),
+  referee: () => refereeReply,
+  "ideator-research": () => "Trades businesses struggle with invoicing.",
+  ideator: () => ideatorReply,
+  salvage: () => {
+    throw new Error("No salvage reply stubbed");
+  },
+};
+
+let replies: Partial<Record<StageName, StubReply>> = {};
+
+/** Every request the stub received since the last `resetStub`, in order */
+export const stubCalls: ChatRequest[] = [];
+
+/**
+ * Restore the default replies, replacing the given stages, and clear `stubCalls`.
+ */
+export function resetStub(overrides: Partial<Record<StageName, StubReply>> = {}): void {
+  replies = overrides;
+  stubCalls.length = 0;
+}
+
+export const stubProvider: LLMProvider = {
+  name: "local",
+  model: "stub-model",
+  supportsWebSearch: false,
+  supportsStructuredOutput: true,
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    stubCalls.push(request);
+    const call = stubCalls.filter((r) => r.stage === request.stage).length;
+    const text = await (replies[request.stage] ?? DEFAULT_REPLIES[request.stage])(request, call);
+    return { text, usage: { inputTokens: 1000, outputTokens: 200 }, model: request.model ?? "stub-model" };
+  },
+};
@@ -0,0 +1,150 @@
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  vetIdea,
+  brainstorm,
+  ConfigError,
+  RunFailedError,
+  type Config,
+  type ProgressEvent,
+  type VetEventMap,
+} from "../src/index.js";
+import { loadConfig, replaceConfigOverrides } from "../src/config.js";
+import { setProgressHandler, type ProgressHandler } from "../src/utils/progress.js";
+import { resetStub } from "./helpers/stub-provider.js";
+
+vi.mock("../src/providers/index.js", async (importOriginal) => {
+  const { stubProvider } = await import("./helpers/stub-provider.js");
+  return { ...(await importOriginal<typeof import("../src/providers/index.js")>()), createProvider: () => stubProvider };
+});
+
+let dir: string;
+let config: Partial<Config>;
+let events: EventEmitter<VetEventMap>;
+let progress: ProgressEvent[];
+let previousOverrides: Partial<Config>;
+let previousHandler: ProgressHandler;
+const cliHandler: ProgressHandler = () => {};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "vet-library-"));
+  config = { provider: "local", outputDir: dir, dbPath: path.join(dir, "vet.db") };
+  events = new EventEmitter<VetEventMap>();
+  progress = [];
+  events.on("progress", (event) => progress.push(event));
+  // What the CLI would have set; every call must leave it in place
+  previousOverrides = replaceConfigOverrides({ outputDir: path.join(dir, "cli-reports") });
+  previousHandler = setProgressHandler(cliHandler);
+  resetStub();
+  for (const method of ["log", "error", "warn", "info"] as const) vi.spyOn(console, method);
+  vi.spyOn(process.stdout, "write");
+  vi.spyOn(process.stderr, "write");
+  vi.spyOn(process, "exit");
+});
+
+afterEach(() => {
+  // Nothing printed and the process never asked to exit
+  expect(console.log).not.toHaveBeenCalled();
+  expect(console.error).not.toHaveBeenCalled();
+  expect(console.warn).not.toHaveBeenCalled();
+  expect(console.info).not.toHaveBeenCalled();
+  expect(process.stdout.write).not.toHaveBeenCalled();
+  expect(process.stderr.write).not.toHaveBeenCalled();
+  expect(process.exit).not.toHaveBeenCalled();
+  // Overrides and the progress handler are back to the caller's
+  expect(loadConfig().outputDir).toBe(path.join(dir, "cli-reports"));
+  expect(setProgressHandler(previousHandler)).toBe(cliHandler);
+  vi.restoreAllMocks();
+  replaceConfigOverrides(previousOverrides);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("vetIdea", () => {
+  it("returns the packet and debug log and reports progress on the emitter", async () => {
+    const { packet, debugLog, reportPath } = await vetIdea({ idea: "Invoicing for plumbers", depth: 1, events }, config);
+    expect(packet.rubric.decision).toBe("GO");
+    expect(packet.meta.provider).toBe("local");
+    expect(debugLog.runId).toBe(packet.runId);
+    expect(debugLog.iterations).toHaveLength(1);
+    expect(reportPath).toBeUndefined();
+
+    const stages = progress.filter((e) => e.type === "succeed").map((e) => e.stage);
+    expect(stages).toEqual(["scout", "dedupe", "analyst", "skeptic", "referee"]);
+    expect(progress.every((e) => e.runId === packet.runId)).toBe(true);
+  });
+
+  it("writes the report only with save", async () => {
+    const { packet, reportPath } = await vetIdea({ idea: "Invoicing for plumbers", depth: 1, save: true }, config);
+    expect(reportPath).toBe(path.join(dir, `${packet.runId}.txt`));
+    expect(fs.existsSync(reportPath!)).toBe(true);
+  });
+
+  it("never opens the DB without save, checkpoint or cache", async () => {
+    const { packet } = await vetIdea({ idea: "Invoicing for plumbers", depth: 1, cache: false }, config);
+    expect(packet.rubric.decision).toBe("GO");
+    expect(fs.existsSync(config.dbPath!)).toBe(false);
+  });
+
+  it("throws ConfigError for invalid config", async () => {
+    await expect(
+      vetIdea({ idea: "Invoicing for plumbers", events }, { ...config, skepticPanel: ["nobody"] })
+    ).rejects.toBeInstanceOf(ConfigError);
+  });
+
+  it("throws a resumable RunFailedError when a stage fails", async () => {
+    resetStub({
+      analyst: () => {
+        throw new Error("analyst unavailable");
+      },
+    });
+    const error = await vetIdea({ idea: "Invoicing for plumbers", depth: 1, checkpoint: true, events }, config).catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(RunFailedError);
+    expect(error.message).toBe("analyst unavailable");
+    expect(error.resumable).toBe(true);
+    expect(progress.some((e) => e.type === "succeed" && e.stage === "scout")).toBe(true);
+  });
+});
+
+describe("brainstorm", () => {
+  it("vets every generated idea and compares them", async () => {
+    const result = await brainstorm({ painPoint: "Plumbers hate invoicing", events }, config);
+    expect(result.ideas.map((i) => i.name)).toEqual(["Idea 0", "Idea 1", "Idea 2"]);
+    expect(result.runs).toHaveLength(3);
+    expect(result.runs.map((r) => r.packet.input.idea)).toEqual(result.ideas.map((i) => `${i.name}: ${i.description}`));
+    expect(result.comparisonReport).toContain("Idea 2");
+    expect(result.partial).toBeUndefined();
+    expect(progress.some((e) => e.type === "succeed" && e.stage === "ideator")).toBe(true);
+  });
+
+  it("resolves with a partial result when cancelled during the Ideator", async () => {
+    const controller = new AbortController();
+    resetStub({
+      ideator: () => {
+        controller.abort("Stopped by caller");
+        throw new Error("Request was aborted.");
+      },
+    });
+    const result = await brainstorm({ painPoint: "Plumbers hate invoicing", signal: controller.signal, events }, config);
+    expect(result.partial).toBe("Stopped by caller");
+    expect(result.ideas).toEqual([]);
+    expect(result.runs).toEqual([]);
+    expect(result.comparisonReport).toContain("No ideas were vetted before the brainstorm stopped.");
+    expect(progress).toContainEqual(expect.objectContaining({ type: "fail", stage: "ideator" }));
+  });
+
+  it("throws RunFailedError with the group id when the Ideator fails", async () => {
+    resetStub({
+      ideator: () => {
+        throw new Error("ideator unavailable");
+      },
+    });
+    const error = await brainstorm({ painPoint: "Plumbers hate invoicing", events }, config).catch((e) => e);
+    expect(error).toBeInstanceOf(RunFailedError);
+    expect(error.message).toBe("ideator unavailable");
+  });
+});
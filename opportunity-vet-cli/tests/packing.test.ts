@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { estimateTokens, packContext, rankEvidence, summarizeByTheme } from "../src/openai/packing.js";
+import type { EvidenceItem, CompetitorItem } from "../src/openai/schemas/scout.zod.js";
+
+function makeEvidence(count: number, theme: string, overrides: Partial<EvidenceItem> = {}): EvidenceItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    url: `https://${theme}.example.com/post-${i}`,
+    sourceType: "forum",
+    quote: `Quote ${i} about ${theme}: ${"detail ".repeat(20)}`,
+    theme,
+    sentiment: "negative" as const,
+    credibility: 3,
+    ...overrides,
+  }));
+}
+
+const competitors: CompetitorItem[] = Array.from({ length: 5 }, (_, i) => ({
+  name: `Comp ${i}`,
+  positioning: "Invoicing for freelancers",
+  complaints: ["slow"],
+  gaps: ["no API"],
+}));
+
+describe("packContext", () => {
+  it("keeps everything as compact JSON when it fits", () => {
+    const evidence = makeEvidence(3, "pricing");
+    const packed = packContext(evidence, competitors, 100_000);
+    expect(packed.evidence).toBe(JSON.stringify(evidence));
+    expect(packed.evidenceOverflow).toBe("");
+    expect(packed.report.summarized).toEqual([]);
+    expect(packed.report.droppedCompetitors).toEqual([]);
+  });
+
+  it("stays within budget and records every summarized item", () => {
+    const evidence = [...makeEvidence(20, "pricing"), ...makeEvidence(20, "onboarding")];
+    const packed = packContext(evidence, competitors, 1500);
+
+    expect(packed.report.estimatedTokens).toBeLessThanOrEqual(1500);
+    expect(packed.report.evidenceIncluded + packed.report.summarized.length).toBe(40);
+    expect(packed.report.summarized.length).toBeGreaterThan(0);
+    expect(packed.evidenceOverflow).toMatch(/^- (pricing|onboarding): \d+ more item\(s\)/);
+    const shownUrls = (JSON.parse(packed.evidence) as EvidenceItem[]).map((e) => e.url);
+    expect(shownUrls).not.toContain(packed.report.summarized[0].url);
+  });
+
+  it("drops trailing competitors past their share of the budget", () => {
+    const many = Array.from({ length: 40 }, (_, i) => ({ ...competitors[0], name: `Comp ${i}` }));
+    const packed = packContext(makeEvidence(5, "pricing"), many, 1000);
+    expect(packed.report.competitorsIncluded).toBeLessThan(40);
+    expect(packed.report.droppedCompetitors[0]).toBe(`Comp ${packed.report.competitorsIncluded}`);
+  });
+});
+
+describe("rankEvidence", () => {
+  it("interleaves themes and prefers credible, verified items", () => {
+    const evidence = [
+      ...makeEvidence(2, "pricing", { credibility: 2 }),
+      ...makeEvidence(2, "onboarding", { credibility: 4 }),
+      { ...makeEvidence(1, "pricing")[0], url: "https://verified.example.com", verified: true },
+    ];
+    const ranked = rankEvidence(evidence).map((e) => e.url);
+    expect(ranked[0]).toBe("https://verified.example.com");
+    expect(ranked.slice(0, 2).map((u) => u.includes("onboarding") || u.includes("verified"))).toEqual([true, true]);
+    expect(ranked).toHaveLength(5);
+  });
+});
+
+describe("summarizeByTheme", () => {
+  it("counts items, sentiment and sources per theme", () => {
+    const summary = summarizeByTheme(makeEvidence(3, "pricing"));
+    expect(summary).toMatch(/^- pricing: 3 more item\(s\) \(3 negative\) from pricing\.example\.com; e\.g\. "Quote 0/);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("approximates four characters per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+  });
+});
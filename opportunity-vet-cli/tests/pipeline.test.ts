@@ -0,0 +1,167 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { replaceConfigOverrides, type Config } from "../src/config.js";
+import { executePipeline, type PipelineOptions } from "../src/pipeline/run.js";
+import { runScout, type SearchCache } from "../src/openai/client.js";
+import { getDebugLog } from "../src/db/index.js";
+import { loadCassette } from "../src/providers/cassette.js";
+import { RunFailedError } from "../src/errors.js";
+import { setProgressHandler, type ProgressHandler } from "../src/utils/progress.js";
+import type { DebugLog } from "../src/pipeline/debug-log.js";
+import { resetStub, scoutReply, skepticReply, stubCalls } from "./helpers/stub-provider.js";
+
+vi.mock("../src/providers/index.js", async (importOriginal) => {
+  const { stubProvider } = await import("./helpers/stub-provider.js");
+  return { ...(await importOriginal<typeof import("../src/providers/index.js")>()), createProvider: () => stubProvider };
+});
+
+let dir: string;
+let testConfig: Partial<Config>;
+let previousOverrides: Partial<Config>;
+let previousHandler: ProgressHandler;
+
+function options(overrides: Partial<PipelineOptions> = {}): PipelineOptions {
+  return { idea: "Invoicing for plumbers", depth: 1, save: false, verbose: false, cache: false, ...overrides };
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "vet-pipeline-"));
+  testConfig = { provider: "local", outputDir: dir, dbPath: path.join(dir, "vet.db") };
+  previousOverrides = replaceConfigOverrides(testConfig);
+  previousHandler = setProgressHandler(() => {});
+  resetStub();
+});
+
+afterEach(() => {
+  setProgressHandler(previousHandler);
+  replaceConfigOverrides(previousOverrides);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("executePipeline", () => {
+  it("saves the debug log of a failed run", async () => {
+    resetStub({
+      referee: () => {
+        throw new Error("referee unavailable");
+      },
+    });
+    const error = await executePipeline(options({ save: true })).catch((e) => e);
+    expect(error).toBeInstanceOf(RunFailedError);
+
+    const log = getDebugLog(error.runId) as DebugLog;
+    expect(log.error).toBe("referee unavailable");
+    expect(log.completedAt).toBeUndefined();
+    expect(log.iterations[0].steps.map((s) => s.step)).toEqual(["scout", "dedupe", "analyst", "skeptic"]);
+    expect(log.totalTokens).toBeGreaterThan(0);
+    expect(fs.existsSync(path.join(dir, `${error.runId}.log.json`))).toBe(true);
+  });
+
+  it("saves the calls recorded before a failure to a partial cassette", async () => {
+    resetStub({
+      referee: () => {
+        throw new Error("referee unavailable");
+      },
+    });
+    const error = await executePipeline(options({ record: true })).catch((e) => e);
+    const cassettePath = path.join(dir, `${error.runId}.cassette.json`);
+    expect(error).toBeInstanceOf(RunFailedError);
+    expect(error.message).toBe(`referee unavailable (partial cassette saved: ${cassettePath})`);
+    const recorded = stubCalls.filter((c) => c.stage !== "referee").map((c) => c.stage);
+    expect(loadCassette(cassettePath).entries.map((e) => e.stage)).toEqual(recorded);
+    expect(recorded).toContain("skeptic");
+  });
+
+  it("keeps the steps of the iteration that failed", async () => {
+    resetStub({
+      analyst: () => {
+        throw new Error("analyst unavailable");
+      },
+    });
+    const error = await executePipeline(options({ save: true })).catch((e) => e);
+    const log = getDebugLog(error.runId) as DebugLog;
+    expect(log.iterations[0].steps.map((s) => s.step)).toEqual(["scout", "dedupe"]);
+  });
+});
+
+describe("cancellation", () => {
+  it("ends a run aborted mid-pipeline with a partial UNCLEAR packet", async () => {
+    const controller = new AbortController();
+    resetStub({
+      // Like a provider whose request is aborted under it
+      analyst: () => {
+        controller.abort("Stopped by caller");
+        throw new Error("Request was aborted.");
+      },
+    });
+    const { packet, debugLog } = await executePipeline(options({ signal: controller.signal }));
+    expect(packet.rubric.decision).toBe("UNCLEAR");
+    expect(packet.meta.partial).toBe("Stopped by caller");
+    expect(packet.meta.stopReason).toEqual({ code: "cancelled", message: "Stopped by caller" });
+    expect(packet.evidence.length).toBeGreaterThan(0);
+    expect(debugLog.referee?.skipped).toBe("Stopped by caller");
+    expect(stubCalls.map((c) => c.stage)).not.toContain("referee");
+  });
+});
+
+describe("critique loop convergence", () => {
+  const analystCalls = () => stubCalls.filter((c) => c.stage === "analyst").length;
+
+  it("stops when a Scout pass adds no new evidence, before the Analyst", async () => {
+    const { packet, debugLog } = await executePipeline(options({ depth: 3 }));
+    expect(packet.meta.stopReason).toEqual({
+      code: "evidence",
+      message: "Converged at iteration 2: 0 new evidence item(s), fewer than 1.",
+    });
+    expect(packet.meta.iterations).toBe(2);
+    expect(debugLog.stopReason?.code).toBe("evidence");
+    expect(analystCalls()).toBe(1);
+  });
+
+  it("analyzes a missed competitor the Scout found, even with no new evidence", async () => {
+    resetStub({
+      skeptic: () => skepticReply({ missedCompetitors: ["FreshBooks"] }),
+      "scout-structure": (_request, call) => scoutReply(0, call === 1 ? ["Comp A"] : ["FreshBooks"]),
+    });
+    const { packet } = await executePipeline(options({ depth: 2 }));
+    expect(analystCalls()).toBe(2);
+    expect(stubCalls.filter((c) => c.stage === "analyst")[1].userPrompt).toContain("FreshBooks");
+    expect(packet.competitors.map((c) => c.name)).toEqual(["Comp A", "FreshBooks"]);
+    expect(packet.meta.stopReason?.code).toBe("rubric");
+  });
+});
+
+describe("runScout", () => {
+  it("caches searches per scout-search model and template", async () => {
+    const keys: string[] = [];
+    const searchCache: SearchCache = {
+      get: (_queries, model) => {
+        keys.push(model);
+        return undefined;
+      },
+      put: () => {},
+    };
+    const scout = () => runScout({ idea: "Invoicing for plumbers", queries: ["invoicing pain"], searchCache });
+
+    await scout();
+    await scout();
+    replaceConfigOverrides({ ...testConfig, stageSettings: { "scout-search": { model: "gpt-4.1" } } });
+    await scout();
+    const promptsDir = path.join(dir, "prompts");
+    fs.mkdirSync(promptsDir);
+    fs.writeFileSync(path.join(promptsDir, "scout-search.user.md"), "Search for: {{queryList}}");
+    replaceConfigOverrides({ ...testConfig, runPromptsDir: promptsDir });
+    await scout();
+
+    expect(keys[1]).toBe(keys[0]);
+    expect(new Set(keys).size).toBe(3);
+    expect(keys[2]).toMatch(/^local\/gpt-4\.1:/);
+    expect(stubCalls.filter((c) => c.stage === "scout-search").map((c) => c.model)).toEqual([
+      undefined,
+      undefined,
+      "gpt-4.1",
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  parseProgressMode,
+  defaultProgressMode,
+  createProgressRenderer,
+  formatNdjsonEvent,
+  formatPlainEvent,
+} from "../src/utils/progress-output.js";
+import type { ProgressEvent } from "../src/utils/progress.js";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("progress modes", () => {
+  it("parses known modes and rejects others", () => {
+    expect(parseProgressMode("ndjson")).toBe("ndjson");
+    expect(() => parseProgressMode("json")).toThrow('Unknown progress mode "json"');
+  });
+
+  it("falls back to plain output when stdout is not a terminal", () => {
+    expect(defaultProgressMode(true)).toBe("spinner");
+    expect(defaultProgressMode(undefined)).toBe("plain");
+  });
+});
+
+describe("formatNdjsonEvent", () => {
+  it("writes the event and its details as one timestamped JSON line", () => {
+    const line = formatNdjsonEvent(
+      { type: "succeed", text: "Scout found 3", runId: "r1", stage: "scout", iteration: 1, details: { tokensUsed: 900, durationMs: 1200 } },
+      new Date("2026-01-01T00:00:00Z")
+    );
+    expect(line).not.toContain("\n");
+    expect(JSON.parse(line)).toEqual({
+      ts: "2026-01-01T00:00:00.000Z",
+      type: "succeed",
+      text: "Scout found 3",
+      runId: "r1",
+      stage: "scout",
+      iteration: 1,
+      details: { tokensUsed: 900, durationMs: 1200 },
+    });
+  });
+});
+
+describe("ndjson renderer", () => {
+  const events: ProgressEvent[] = [
+    { type: "start", text: "Analyzing...", stage: "analyst" },
+    { type: "update", text: "Analyzing (retry 1)...", stage: "analyst" },
+    { type: "info", text: "  Pain themes: 2" },
+    { type: "succeed", text: "Analyst done", stage: "analyst", details: { tokensUsed: 1800, durationMs: 12_300 } },
+    { type: "warn", text: "Budget: stop", stage: "budget" },
+  ];
+
+  function render(infoToStderr: boolean) {
+    const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const handler = createProgressRenderer("ndjson", infoToStderr);
+    for (const event of events) handler(event);
+    const lines = stderr.mock.calls.map(([chunk]) => JSON.parse(String(chunk)));
+    return { lines, log, error };
+  }
+
+  it("streams only step starts and finishes, with their details", () => {
+    const { lines, log } = render(false);
+    expect(lines.map((l) => l.type)).toEqual(["start", "succeed", "warn"]);
+    expect(lines[1].details).toEqual({ tokensUsed: 1800, durationMs: 12_300 });
+    expect(log).toHaveBeenCalledWith("  Pain themes: 2");
+  });
+
+  it("drops info lines with --json", () => {
+    const { lines, log, error } = render(true);
+    expect(lines.map((l) => l.type)).toEqual(["start", "succeed", "warn"]);
+    expect(log).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+});
+
+describe("formatPlainEvent", () => {
+  it("marks starts and finishes and appends duration and tokens", () => {
+    expect(formatPlainEvent({ type: "start", text: "Analyzing..." })).toBe("- Analyzing...");
+    expect(formatPlainEvent({ type: "succeed", text: "Analyst done", details: { durationMs: 12_300, tokensUsed: 1800 } })).toBe(
+      "✔ Analyst done (12.3s, 1,800 tokens)"
+    );
+    expect(formatPlainEvent({ type: "warn", text: "Budget: stop" })).toBe("⚠ Budget: stop");
+  });
+
+  it("repeats the open step's text for a finish without its own", () => {
+    expect(formatPlainEvent({ type: "fail" }, "Deduplicating evidence...")).toBe("✖ Deduplicating evidence...");
+  });
+
+  it("prints info lines as they are", () => {
+    expect(formatPlainEvent({ type: "info", text: "  1. Idea" })).toBe("  1. Idea");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { createProvider } from "../src/providers/index.js";
+import { parseProviderName, type Config } from "../src/config.js";
+import { DEFAULT_RUBRIC_SETTINGS } from "../src/pipeline/scoring.js";
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    provider: "openai",
+    openaiApiKey: "sk-test",
+    openaiModel: "gpt-4o",
+    localBaseUrl: "http://localhost:11434/v1",
+    localModel: "llama3.1",
+    localApiKey: "local",
+    localStructuredOutput: false,
+    outputDir: "reports",
+    dbPath: ".data/vet.db",
+    searchCacheTtlHours: 168,
+    stageSettings: {},
+    promptsDir: "prompts",
+    contextTokenBudget: 12000,
+    callTimeoutMs: 600_000,
+    retryMaxWaitMs: 120_000,
+    credibility: {},
+    rubric: DEFAULT_RUBRIC_SETTINGS,
+    runDefaults: {},
+    skepticPanel: ["red-team"],
+    skepticPersonas: {},
+    ...overrides,
+  };
+}
+
+describe("createProvider", () => {
+  it("builds the OpenAI provider with web search", () => {
+    const provider = createProvider(makeConfig());
+    expect(provider.name).toBe("openai");
+    expect(provider.model).toBe("gpt-4o");
+    expect(provider.supportsWebSearch).toBe(true);
+  });
+
+  it("builds the local provider without web search", () => {
+    const provider = createProvider(makeConfig({ provider: "local" }));
+    expect(provider.name).toBe("local");
+    expect(provider.model).toBe("llama3.1");
+    expect(provider.supportsWebSearch).toBe(false);
+  });
+});
+
+describe("parseProviderName", () => {
+  it("accepts known providers", () => {
+    expect(parseProviderName("local")).toBe("local");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => parseProviderName("anthropic")).toThrow(/Unknown provider/);
+  });
+});
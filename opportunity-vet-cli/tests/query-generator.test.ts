@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { generateQueries } from "../src/pipeline/scout.js";
+import { competitorQueries, generateQueries, MAX_COMPETITOR_QUERIES } from "../src/pipeline/scout.js";
 
 describe("generateQueries", () => {
   it("generates base queries with just idea", () => {
@@ -29,3 +29,19 @@ describe("generateQueries", () => {
     expect(customerQueries.length).toBeGreaterThanOrEqual(2);
   });
 });
+
+describe("competitorQueries", () => {
+  const known = [{ name: "QuickBooks", positioning: "Accounting suite", complaints: [], gaps: [] }];
+
+  it("searches each missed competitor not already in the list", () => {
+    expect(competitorQueries(["FreshBooks — invoicing for freelancers", "quickbooks: has reminders", "Wave"], known)).toEqual({
+      names: ["FreshBooks", "Wave"],
+      queries: ["FreshBooks pricing reviews complaints", "Wave pricing reviews complaints"],
+    });
+  });
+
+  it("skips repeats and caps the number of competitors", () => {
+    const missed = ["A", "a", "B", "C", "D", "E", "F"];
+    expect(competitorQueries(missed, []).names).toEqual(["A", "B", "C", "D", "E", "F"].slice(0, MAX_COMPETITOR_QUERIES));
+  });
+});
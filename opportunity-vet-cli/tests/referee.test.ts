@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { normalizeRefereeDraft } from "../src/pipeline/referee.js";
+import type { AnalystResult } from "../src/openai/schemas/analyst.zod.js";
+
+const analysis: AnalystResult = {
+  painThemes: ["Manual invoicing"],
+  whoPays: "Agency owners",
+  wedgeOptions: [{ wedge: "Invoice sync", whyWorks: "Saves hours", mvp: "QuickBooks import" }],
+  rubricDraft: {
+    painIntensity: 3,
+    frequency: 3,
+    buyerClarity: 3,
+    budgetSignal: 3,
+    switchingCost: 3,
+    competition: 3,
+    distributionFeasibility: 3,
+    reasons: [],
+  },
+  premortem: ["Incumbents add the feature"],
+  nextTests: ["Interview 10 agencies"],
+};
+
+const fullRubric = {
+  painIntensity: 4,
+  frequency: 3,
+  buyerClarity: 4,
+  budgetSignal: 2,
+  switchingCost: 3,
+  competition: 2,
+  distributionFeasibility: 3,
+  decision: "GO",
+  reasons: ["Strong pain"],
+};
+
+describe("normalizeRefereeDraft", () => {
+  it("defaults omitted scores to 0 and records each one", () => {
+    const { buyerClarity: _omitted, ...rubric } = fullRubric;
+    const { draft, adjustments } = normalizeRefereeDraft({ rubric, analysis }, analysis);
+    expect(draft.rubric.buyerClarity).toBe(0);
+    expect(adjustments).toEqual(["Referee omitted buyerClarity; scored 0 by default."]);
+  });
+
+  it("clamps out-of-range and fractional scores", () => {
+    const { draft, adjustments } = normalizeRefereeDraft(
+      { rubric: { ...fullRubric, painIntensity: 7, frequency: 2.6 }, analysis },
+      analysis
+    );
+    expect(draft.rubric.painIntensity).toBe(5);
+    expect(draft.rubric.frequency).toBe(3);
+    expect(adjustments).toContain("Referee scored painIntensity 7; clamped to 5.");
+    expect(adjustments).toContain("Referee scored frequency 2.6; clamped to 3.");
+  });
+
+  it("defaults an invalid decision to UNCLEAR", () => {
+    const { draft, adjustments } = normalizeRefereeDraft(
+      { rubric: { ...fullRubric, decision: "MAYBE" }, analysis },
+      analysis
+    );
+    expect(draft.rubric.decision).toBe("UNCLEAR");
+    expect(adjustments[0]).toMatch(/invalid decision/);
+  });
+
+  it("falls back to the Analyst for a missing analysis section", () => {
+    const { draft, adjustments } = normalizeRefereeDraft({ rubric: fullRubric }, analysis);
+    expect(draft.analysis.painThemes).toEqual(analysis.painThemes);
+    expect(draft.analysis.wedgeOptions).toEqual(analysis.wedgeOptions);
+    expect(draft.analysis.whoPays).toBe("Agency owners");
+    expect(adjustments).toHaveLength(4);
+  });
+
+  it("drops malformed wedge options", () => {
+    const { draft, adjustments } = normalizeRefereeDraft(
+      { rubric: fullRubric, analysis: { ...analysis, wedgeOptions: [...analysis.wedgeOptions, { wedge: "No mvp" }] } },
+      analysis
+    );
+    expect(draft.analysis.wedgeOptions).toHaveLength(1);
+    expect(adjustments).toEqual(["Dropped 1 malformed wedge option(s) from the Referee."]);
+  });
+
+  it("makes no adjustments to a complete draft", () => {
+    const { adjustments } = normalizeRefereeDraft({ rubric: fullRubric, analysis }, analysis);
+    expect(adjustments).toEqual([]);
+  });
+});
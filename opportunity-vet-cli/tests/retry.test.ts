@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { withRetry, classifyError, retryAfterMs, parseDuration, type RetryEvent } from "../src/utils/retry.js";
+import { CancelledError } from "../src/utils/cancel.js";
+
+function serverError(): Error {
+  return Object.assign(new Error("server error"), { status: 500 });
+}
+
+function apiError(status: number, fields: { code?: string; headers?: Record<string, string> } = {}): Error {
+  return Object.assign(new Error(`${status} error`), { status, code: fields.code, headers: fields.headers ?? {} });
+}
+
+async function retryEvents(errors: Error[], options: Parameters<typeof withRetry>[1] = {}): Promise<RetryEvent[]> {
+  const events: RetryEvent[] = [];
+  let calls = 0;
+  await withRetry(
+    async () => {
+      if (calls < errors.length) throw errors[calls++];
+      return "ok";
+    },
+    { maxAttempts: errors.length + 1, random: () => 0.5, onRetry: (e) => events.push(e), ...options }
+  ).catch(() => undefined);
+  return events;
+}
+
+describe("withRetry", () => {
+  it("retries retryable errors until one succeeds", async () => {
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw serverError();
+        return "ok";
+      },
+      { baseDelayMs: 1 }
+    );
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+  });
+
+  it("does not start when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort("Interrupted");
+    let calls = 0;
+    await expect(withRetry(async () => ++calls, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+    expect(calls).toBe(0);
+  });
+
+  it("stops retrying and cuts the wait short once aborted", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const started = Date.now();
+    const pending = withRetry(
+      async () => {
+        calls++;
+        throw serverError();
+      },
+      { baseDelayMs: 60_000, signal: controller.signal }
+    );
+    setTimeout(() => controller.abort("Interrupted"), 20);
+    await expect(pending).rejects.toThrow("Interrupted");
+    expect(calls).toBe(1);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  it("never retries an exhausted quota", async () => {
+    let calls = 0;
+    const quota = apiError(429, { code: "insufficient_quota" });
+    await expect(withRetry(async () => { calls++; throw quota; }, { baseDelayMs: 1 })).rejects.toBe(quota);
+    expect(calls).toBe(1);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    const events = await retryEvents([apiError(429, { headers: { "retry-after": "0.01" } })]);
+    expect(events).toEqual([
+      expect.objectContaining({ attempt: 1, kind: "rate_limit", status: 429, delayMs: 10, fromHeader: true }),
+    ]);
+  });
+
+  it("applies full jitter to the exponential backoff", async () => {
+    const events = await retryEvents([serverError(), serverError()], { baseDelayMs: 10 });
+    expect(events.map((e) => e.delayMs)).toEqual([5, 15]);
+    expect(events.every((e) => !e.fromHeader)).toBe(true);
+  });
+
+  it("cuts the last wait to the budget left, then gives up", async () => {
+    const events = await retryEvents([serverError(), serverError(), serverError()], { baseDelayMs: 10, maxTotalWaitMs: 12 });
+    expect(events.map((e) => e.delayMs)).toEqual([5, 7]);
+  });
+
+  it("retries a 500 with backoff even when it carries rate-limit reset headers", async () => {
+    const error = apiError(500, { headers: { "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "6m0s" } });
+    const events = await retryEvents([error], { baseDelayMs: 10 });
+    expect(events).toEqual([expect.objectContaining({ kind: "server", delayMs: 5, fromHeader: false })]);
+  });
+
+  it("retries a 429 whose reset is longer than the wait budget", async () => {
+    const error = apiError(429, { headers: { "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "6m0s" } });
+    const events = await retryEvents([error], { maxTotalWaitMs: 20 });
+    expect(events).toEqual([expect.objectContaining({ kind: "rate_limit", delayMs: 20, fromHeader: true })]);
+  });
+});
+
+describe("classifyError", () => {
+  it("tells rate limits from quota and content filter errors", () => {
+    expect(classifyError(apiError(429))).toBe("rate_limit");
+    expect(classifyError(apiError(429, { code: "insufficient_quota" }))).toBe("quota_exhausted");
+    expect(classifyError(apiError(400, { code: "content_filter" }))).toBe("content_filter");
+    expect(classifyError({ status: 429, error: { type: "insufficient_quota" } })).toBe("quota_exhausted");
+  });
+
+  it("classifies server, network and timeout failures", () => {
+    expect(classifyError(apiError(503))).toBe("server");
+    expect(classifyError(new Error("Connection error."))).toBe("network");
+    expect(classifyError(new Error("analyst call timeout after 1s"))).toBe("timeout");
+    expect(classifyError(apiError(401))).toBe("other");
+  });
+});
+
+describe("retryAfterMs", () => {
+  it("prefers retry-after-ms, then Retry-After seconds or date", () => {
+    expect(retryAfterMs(apiError(429, { headers: { "retry-after-ms": "250", "retry-after": "9" } }))).toBe(250);
+    expect(retryAfterMs(apiError(429, { headers: { "retry-after": "2" } }))).toBe(2000);
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(retryAfterMs(apiError(429, { headers: { "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" } }), now)).toBe(5000);
+  });
+
+  it("falls back to the reset of the rate limit that ran out", () => {
+    const resets = { "x-ratelimit-reset-requests": "1s", "x-ratelimit-reset-tokens": "6m0s" };
+    const requests = apiError(429, { headers: { ...resets, "x-ratelimit-remaining-requests": "0", "x-ratelimit-remaining-tokens": "900" } });
+    expect(retryAfterMs(requests)).toBe(1000);
+    const tokens = Object.assign(apiError(429, { headers: resets }), { message: "Rate limit reached for gpt-4o on tokens per min (TPM)" });
+    expect(retryAfterMs(tokens)).toBe(360_000);
+    expect(retryAfterMs(apiError(429, { headers: resets }))).toBeUndefined();
+  });
+
+  it("ignores rate-limit resets on other errors", () => {
+    const error = apiError(503, { headers: { "x-ratelimit-remaining-requests": "0", "x-ratelimit-reset-requests": "1s", "retry-after": "3" } });
+    expect(retryAfterMs(error)).toBe(3000);
+    expect(retryAfterMs(apiError(503, { headers: { "x-ratelimit-remaining-requests": "0", "x-ratelimit-reset-requests": "1s" } }))).toBeUndefined();
+  });
+
+  it("is undefined without headers", () => {
+    expect(retryAfterMs(serverError())).toBeUndefined();
+  });
+});
+
+describe("parseDuration", () => {
+  it("parses Go-style durations", () => {
+    expect(parseDuration("20ms")).toBe(20);
+    expect(parseDuration("1.5s")).toBe(1500);
+    expect(parseDuration("1h2m3s")).toBe(3_723_000);
+    expect(parseDuration("soon")).toBeUndefined();
+  });
+});
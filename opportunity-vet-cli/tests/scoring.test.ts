@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { computeEvidenceStrength, computeTotal, applyKillRules } from "../src/pipeline/scoring.js";
+import {
+  computeEvidenceStrength,
+  computeTotal,
+  applyKillRules,
+  majorityDecision,
+  capCompetition,
+  DEFAULT_RUBRIC_SETTINGS,
+} from "../src/pipeline/scoring.js";
 import type { EvidenceItem } from "../src/openai/schemas/scout.zod.js";
 
 function makeEvidence(count: number, domain = "example.com"): EvidenceItem[] {
@@ -38,6 +45,26 @@ describe("computeEvidenceStrength", () => {
     expect(computeEvidenceStrength(diverse)).toBeGreaterThan(computeEvidenceStrength(single));
   });
 
+  it("down-weights evidence no web search citation backs", () => {
+    const diverse = [
+      ...makeEvidence(6, "g2.com"),
+      ...makeEvidence(6, "reddit.com"),
+      ...makeEvidence(6, "capterra.com"),
+      ...makeEvidence(6, "techcrunch.com"),
+      ...makeEvidence(6, "indiehackers.com"),
+    ];
+    const cited = diverse.map((e) => ({ ...e, cited: true }));
+    const uncited = diverse.map((e) => ({ ...e, cited: false }));
+    expect(computeEvidenceStrength(cited)).toBe(computeEvidenceStrength(diverse));
+    expect(computeEvidenceStrength(uncited)).toBeLessThan(computeEvidenceStrength(cited));
+  });
+
+  it("counts only verified quotes when verifiedOnly is set", () => {
+    const evidence = makeEvidence(30, "g2.com").map((e, i) => ({ ...e, verified: i < 6 }));
+    expect(computeEvidenceStrength(evidence, { verifiedOnly: true })).toBe(computeEvidenceStrength(evidence.slice(0, 6)));
+    expect(computeEvidenceStrength(evidence, { verifiedOnly: true })).toBeLessThan(computeEvidenceStrength(evidence));
+  });
+
   it("clamps between 0 and 5", () => {
     const score = computeEvidenceStrength(makeEvidence(100, "g2.com"));
     expect(score).toBeGreaterThanOrEqual(0);
@@ -145,4 +172,41 @@ describe("applyKillRules", () => {
     expect(result.decision).toBe("GO");
     expect(result.overridden).toBe(false);
   });
+
+  it("uses configured thresholds and evidence minimum", () => {
+    const strict = {
+      killThresholds: { ...DEFAULT_RUBRIC_SETTINGS.killThresholds, evidenceStrength: 3 },
+      minEvidence: 15,
+    };
+    const result = applyKillRules(baseRubric, [], 10, "GO", strict);
+    expect(result.decision).toBe("NO_GO");
+    expect(result.overrideReasons[0]).toContain("evidenceStrength <= 3");
+
+    const unclear = applyKillRules({ ...baseRubric, buyerClarity: 1 }, [], 12, "GO", { ...DEFAULT_RUBRIC_SETTINGS, minEvidence: 15 });
+    expect(unclear.decision).toBe("UNCLEAR");
+  });
+});
+
+describe("majorityDecision", () => {
+  it("takes the majority and breaks ties toward caution", () => {
+    expect(majorityDecision(["GO", "GO", "NO_GO"])).toBe("GO");
+    expect(majorityDecision(["GO", "UNCLEAR"])).toBe("UNCLEAR");
+    expect(majorityDecision(["GO", "NO_GO", "UNCLEAR"])).toBe("NO_GO");
+  });
+});
+
+describe("capCompetition", () => {
+  it("lowers the ceiling by the penalty for each already-solved note, never below 1", () => {
+    expect(capCompetition(4, 2)).toEqual({
+      competition: 3,
+      reason: "Already solved: competition capped at 3 (from 4); the Skeptic found 2 existing solution(s).",
+    });
+    expect(capCompetition(3, 9, 2).competition).toBe(1);
+    expect(capCompetition(0, 9).competition).toBe(0);
+  });
+
+  it("leaves scores under the ceiling, and every score when the penalty is 0", () => {
+    expect(capCompetition(2, 1)).toEqual({ competition: 2 });
+    expect(capCompetition(5, 3, 0)).toEqual({ competition: 5 });
+  });
 });
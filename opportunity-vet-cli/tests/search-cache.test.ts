@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { searchCacheKey } from "../src/pipeline/search-cache.js";
+
+describe("searchCacheKey", () => {
+  it("ignores query order, case and whitespace", () => {
+    const a = searchCacheKey(["Invoice  software reviews", "invoice software pricing"], "openai/gpt-4o");
+    const b = searchCacheKey(["invoice software pricing ", "invoice software REVIEWS"], "openai/gpt-4o");
+    expect(a).toBe(b);
+  });
+
+  it("ignores duplicate queries", () => {
+    const a = searchCacheKey(["q1", "q2"], "openai/gpt-4o");
+    const b = searchCacheKey(["q1", "q2", "Q1"], "openai/gpt-4o");
+    expect(a).toBe(b);
+  });
+
+  it("differs per model", () => {
+    expect(searchCacheKey(["q1"], "openai/gpt-4o")).not.toBe(searchCacheKey(["q1"], "local/llama3.1"));
+  });
+
+  it("differs when the query set changes", () => {
+    expect(searchCacheKey(["q1"], "openai/gpt-4o")).not.toBe(searchCacheKey(["q1", "q2"], "openai/gpt-4o"));
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  aggregateRefereeSamples,
+  formatSampleDecisions,
+  medianScore,
+  scoreConfidence,
+} from "../src/pipeline/self-consistency.js";
+import { formatRubricTable } from "../src/pipeline/report.js";
+import type { RefereeDraft, RefereeRubric } from "../src/openai/schemas/referee.zod.js";
+
+function makeDraft(overrides: Partial<RefereeRubric>, label: string): RefereeDraft {
+  return {
+    analysis: { painThemes: [label], wedgeOptions: [], premortem: [], nextTests: [] },
+    rubric: {
+      painIntensity: 3,
+      frequency: 3,
+      buyerClarity: 3,
+      budgetSignal: 3,
+      switchingCost: 3,
+      competition: 3,
+      distributionFeasibility: 3,
+      decision: "GO",
+      reasons: [label],
+      ...overrides,
+    },
+  };
+}
+
+describe("medianScore", () => {
+  it("takes the middle value, or the lower middle on an even count", () => {
+    expect(medianScore([4, 1, 3])).toBe(3);
+    expect(medianScore([4, 2, 3, 5])).toBe(3);
+    expect(medianScore([2])).toBe(2);
+  });
+});
+
+describe("scoreConfidence", () => {
+  it("drops as the samples spread apart", () => {
+    expect(scoreConfidence(3, 3)).toBe("high");
+    expect(scoreConfidence(3, 4)).toBe("medium");
+    expect(scoreConfidence(1, 4)).toBe("low");
+  });
+});
+
+describe("aggregateRefereeSamples", () => {
+  it("scores the medians and keeps the majority sample closest to them", () => {
+    const { draft, consistency } = aggregateRefereeSamples([
+      makeDraft({ painIntensity: 5, frequency: 1 }, "a"),
+      makeDraft({ painIntensity: 4 }, "b"),
+      makeDraft({ painIntensity: 2, decision: "NO_GO" }, "c"),
+    ]);
+    expect(draft.rubric).toMatchObject({ painIntensity: 4, frequency: 3, decision: "GO", reasons: ["b"] });
+    expect(draft.analysis.painThemes).toEqual(["b"]);
+    expect(consistency).toMatchObject({ samples: 3, decisions: ["GO", "GO", "NO_GO"], unstable: true });
+    expect(consistency.dimensions.painIntensity).toEqual({ median: 4, min: 2, max: 5, confidence: "low" });
+    expect(consistency.dimensions.competition.confidence).toBe("high");
+  });
+
+  it("breaks a decision tie toward caution and is stable when samples agree", () => {
+    const split = aggregateRefereeSamples([makeDraft({}, "a"), makeDraft({ decision: "UNCLEAR" }, "b")]);
+    expect(split.draft.rubric.decision).toBe("UNCLEAR");
+    expect(aggregateRefereeSamples([makeDraft({}, "a"), makeDraft({ frequency: 4 }, "b")]).consistency.unstable).toBe(false);
+  });
+});
+
+describe("formatSampleDecisions", () => {
+  it("counts each decision in order of first appearance", () => {
+    expect(formatSampleDecisions(["GO", "NO_GO", "GO"])).toBe("2× GO, 1× NO_GO");
+  });
+});
+
+describe("formatRubricTable", () => {
+  it("adds range and confidence columns for sampled rubrics", () => {
+    const { draft, consistency } = aggregateRefereeSamples([makeDraft({}, "a"), makeDraft({ buyerClarity: 5 }, "b")]);
+    const rubric = { ...draft.rubric, evidenceStrength: 2, total: 23 };
+    const table = formatRubricTable(rubric, consistency);
+    expect(table[0]).toBe("| Dimension | Score (median of 2) | Range | Confidence |");
+    expect(table).toContain("| Buyer Clarity | 3/5 | 3–5 | low |");
+    expect(table).toContain("| Evidence Strength | 2/5 | — | computed |");
+    expect(formatRubricTable(rubric)).toContain("| Buyer Clarity | 3/5 |");
+    expect(formatRubricTable({ ...rubric, buyerClarity: 2 }, consistency)).toContain("| Buyer Clarity | 2/5 (capped; median 3) | 3–5 | low |");
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolvePanel,
+  mergeSkepticResults,
+  skepticStage,
+  BUILT_IN_PERSONAS,
+} from "../src/pipeline/skeptic-panel.js";
+import { formatAlreadySolved, formatSkepticPanel } from "../src/pipeline/report.js";
+import type { SkepticResult } from "../src/openai/schemas/skeptic.zod.js";
+
+function makeResult(overrides: Partial<SkepticResult> = {}): SkepticResult {
+  return {
+    counterarguments: [],
+    alreadySolvedNotes: [],
+    missedCompetitors: [],
+    missingEvidenceQueries: [],
+    decisionSuggestion: { decision: "UNCLEAR", reasons: [] },
+    ...overrides,
+  };
+}
+
+const { investor, buyer } = BUILT_IN_PERSONAS;
+
+describe("resolvePanel", () => {
+  it("finds built-in and configured personas", () => {
+    const panel = resolvePanel(["investor", "cfo"], { cfo: { name: "CFO", brief: "the buyer's CFO." } });
+    expect(panel.map((p) => p.name)).toEqual(["Investor", "CFO"]);
+  });
+
+  it("rejects unknown personas and empty panels", () => {
+    expect(() => resolvePanel(["vc"])).toThrow(/Unknown Skeptic persona "vc". Available: red-team, investor/);
+    expect(() => resolvePanel([])).toThrow(/at least one persona/);
+  });
+
+  it("keeps the plain red team on the original checkpoint stage", () => {
+    expect(skepticStage(BUILT_IN_PERSONAS["red-team"])).toBe("skeptic");
+    expect(skepticStage(investor)).toBe("skeptic:investor");
+  });
+});
+
+describe("mergeSkepticResults", () => {
+  it("passes a single persona's result through unchanged", () => {
+    const result = makeResult({ counterarguments: ["Too niche."], missingEvidenceQueries: ["q1", "q2"] });
+    const merged = mergeSkepticResults([{ persona: investor, result }]);
+    expect(merged.skeptic).toBe(result);
+    expect(merged.panel.objections).toEqual([{ kind: "counterargument", text: "Too niche.", personas: ["investor"] }]);
+  });
+
+  it("merges near-duplicate objections and attributes them to every persona", () => {
+    const merged = mergeSkepticResults([
+      {
+        persona: investor,
+        result: makeResult({
+          counterarguments: ["The market is too small to support a business."],
+          missedCompetitors: ["FreshBooks — sends automatic payment reminders"],
+          decisionSuggestion: { decision: "NO_GO", reasons: ["Small market"] },
+        }),
+      },
+      {
+        persona: buyer,
+        result: makeResult({
+          counterarguments: ["The market is too small to support a business!", "I already chase invoices by email."],
+          missedCompetitors: ["FreshBooks: reminders built in"],
+          decisionSuggestion: { decision: "UNCLEAR", reasons: ["Unclear pain"] },
+        }),
+      },
+    ]);
+    expect(merged.skeptic.counterarguments).toEqual([
+      "The market is too small to support a business.",
+      "I already chase invoices by email.",
+    ]);
+    expect(merged.skeptic.missedCompetitors).toHaveLength(1);
+    expect(merged.panel.objections[0].personas).toEqual(["investor", "buyer"]);
+    expect(merged.skeptic.decisionSuggestion).toEqual({
+      decision: "NO_GO",
+      reasons: ["Investor: Small market", "Target buyer: Unclear pain"],
+    });
+  });
+
+  it("takes follow-up queries from each persona in turn, deduplicated and capped", () => {
+    const merged = mergeSkepticResults(
+      [
+        { persona: investor, result: makeResult({ missingEvidenceQueries: ["a1", "a2", "a3"] }) },
+        { persona: buyer, result: makeResult({ missingEvidenceQueries: ["A1", "b2"] }) },
+      ],
+      3
+    );
+    expect(merged.skeptic.missingEvidenceQueries).toEqual(["a1", "a2", "b2"]);
+  });
+});
+
+describe("formatSkepticPanel", () => {
+  it("attributes each objection to its personas", () => {
+    const lines = formatSkepticPanel({
+      personas: [
+        { id: "investor", name: "Investor", decision: "NO_GO" },
+        { id: "buyer", name: "Target buyer", decision: "UNCLEAR" },
+      ],
+      objections: [
+        { kind: "counterargument", text: "Small market.", personas: ["investor", "buyer"] },
+        { kind: "missed-competitor", text: "FreshBooks", personas: ["buyer"] },
+      ],
+    });
+    expect(lines).toContain("**Panel:** Investor (NO_GO), Target buyer (UNCLEAR)");
+    expect(lines).toContain("- **Investor, Target buyer:** Small market.");
+    expect(lines).toContain("### Missed Competitors");
+    expect(lines).toContain("- **Target buyer:** FreshBooks");
+  });
+});
+
+describe("formatAlreadySolved", () => {
+  const panel = {
+    personas: [{ id: "red-team", name: "Red team", decision: "UNCLEAR" as const }],
+    objections: [
+      { kind: "already-solved" as const, text: "QuickBooks sends reminders already.", personas: ["red-team"] },
+      { kind: "counterargument" as const, text: "Small market.", personas: ["red-team"] },
+    ],
+  };
+
+  it("lists the notes with the competition cap, and leaves them out of the Skeptic's objections", () => {
+    const lines = formatAlreadySolved(panel, ["Already solved: competition capped at 4 (from 5); the Skeptic found 1 existing solution(s)."]);
+    expect(lines.slice(0, 3)).toEqual([
+      "## Already Solved",
+      "",
+      "**Competition capped at 4 (from 5); the Skeptic found 1 existing solution(s).**",
+    ]);
+    expect(lines).toContain("- QuickBooks sends reminders already.");
+    expect(formatSkepticPanel(panel).join("\n")).not.toContain("QuickBooks");
+  });
+
+  it("is empty without notes", () => {
+    expect(formatAlreadySolved({ ...panel, objections: panel.objections.slice(1) }, [])).toEqual([]);
+  });
+});
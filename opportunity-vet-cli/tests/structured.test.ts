@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { toResponseFormat, stripNulls } from "../src/openai/structured.js";
+import { ScoutResultSchema } from "../src/openai/schemas/scout.zod.js";
+import { RefereeDraftSchema } from "../src/openai/schemas/referee.zod.js";
+
+describe("toResponseFormat", () => {
+  it("makes every property required and optional ones nullable", () => {
+    const { name, schema } = toResponseFormat("scout_structure", ScoutResultSchema);
+    const evidence = (schema as any).properties.evidence.items;
+    expect(name).toBe("scout_structure");
+    expect(evidence.required).toContain("title");
+    expect(evidence.properties.title.type).toEqual(["string", "null"]);
+    expect(evidence.additionalProperties).toBe(false);
+    expect(JSON.stringify(schema)).not.toContain('"nullable"');
+  });
+
+  it("keeps enums and integer bounds", () => {
+    const { schema } = toResponseFormat("referee", RefereeDraftSchema);
+    const rubric = (schema as any).properties.rubric.properties;
+    expect(rubric.decision.enum).toEqual(["GO", "NO_GO", "UNCLEAR"]);
+    expect(rubric.painIntensity).toMatchObject({ type: "integer", minimum: 0, maximum: 5 });
+  });
+});
+
+describe("stripNulls", () => {
+  it("lets null optional fields validate against the original schema", () => {
+    const strictOutput = {
+      queries: [],
+      evidence: [
+        { url: "https://a.com", title: null, sourceType: "forum", quote: "q", theme: "pain", sentiment: "negative", credibility: 3 },
+      ],
+      competitors: [{ name: "C", url: null, positioning: "p", pricingSignals: null, complaints: [], gaps: [] }],
+    };
+    expect(() => ScoutResultSchema.parse(strictOutput)).toThrow();
+    const result = ScoutResultSchema.parse(stripNulls(strictOutput));
+    expect(result.evidence[0].title).toBeUndefined();
+    expect(result.competitors[0].url).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate, hashTemplate } from "../src/openai/templates.js";
+
+describe("renderTemplate", () => {
+  it("substitutes variables", () => {
+    expect(renderTemplate("Idea: {{idea}} ({{count}} items)", { idea: "CRM", count: 3 })).toBe("Idea: CRM (3 items)");
+  });
+
+  it("renders sections only when the variable is truthy", () => {
+    const template = "{{#niche}}Niche: {{niche}}{{/niche}}|{{^niche}}no niche{{/niche}}";
+    expect(renderTemplate(template, { niche: "dental" })).toBe("Niche: dental|");
+    expect(renderTemplate(template, { niche: undefined })).toBe("|no niche");
+  });
+
+  it("renders undefined and false values as empty", () => {
+    expect(renderTemplate("[{{a}}][{{b}}]", { a: undefined, b: false })).toBe("[][]");
+  });
+
+  it("does not expand template syntax inside values", () => {
+    expect(renderTemplate("{{quote}}", { quote: "{{idea}}" })).toBe("{{idea}}");
+  });
+
+  it("rejects unknown variables with the template name", () => {
+    expect(() => renderTemplate("{{idae}}", { idea: "x" }, "analyst.user")).toThrow(
+      /"analyst.user" uses unknown variable \{\{idae\}\}/
+    );
+    expect(() => renderTemplate("{{#nich}}x{{/nich}}", { niche: "x" })).toThrow(/unknown variable/);
+  });
+});
+
+describe("hashTemplate", () => {
+  it("is stable and content-sensitive", () => {
+    expect(hashTemplate("abc")).toBe(hashTemplate("abc"));
+    expect(hashTemplate("abc")).not.toBe(hashTemplate("abd"));
+    expect(hashTemplate("abc")).toHaveLength(12);
+  });
+});
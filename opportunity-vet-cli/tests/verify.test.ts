@@ -0,0 +1,104 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  createHttpFetcher,
+  htmlToText,
+  quoteMatchScore,
+  quoteVerificationStats,
+  verifyEvidence,
+} from "../src/pipeline/verify.js";
+import type { EvidenceItem } from "../src/openai/schemas/scout.zod.js";
+
+const PAGE = `<html><head><style>p { color: red }</style><script>var quote = "fake";</script></head>
+<body><p>I spend &ldquo;two full days&rdquo; every month chasing   late invoices.</p><p>Other text.</p></body></html>`;
+
+function makeItem(url: string, quote: string): EvidenceItem {
+  return { url, quote, sourceType: "forum", theme: "pain", sentiment: "negative", credibility: 3 };
+}
+
+describe("htmlToText", () => {
+  it("drops scripts, styles and tags and decodes entities", () => {
+    expect(htmlToText(PAGE)).toBe('I spend "two full days" every month chasing late invoices. Other text.');
+  });
+});
+
+describe("quoteMatchScore", () => {
+  const text = htmlToText(PAGE);
+
+  it("scores an exact quote 1 regardless of case, punctuation and spacing", () => {
+    expect(quoteMatchScore("i spend two full days every month, chasing late invoices", text)).toBe(1);
+  });
+
+  it("scores a lightly paraphrased quote high", () => {
+    expect(quoteMatchScore("I spend two days every month chasing late invoices", text)).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it("scores an invented quote low", () => {
+    expect(quoteMatchScore("Our accountant refuses to use any cloud software", text)).toBeLessThan(0.3);
+  });
+
+  it("scores empty input 0", () => {
+    expect(quoteMatchScore("", text)).toBe(0);
+    expect(quoteMatchScore("late invoices", "")).toBe(0);
+  });
+});
+
+describe("verifyEvidence", () => {
+  it("marks found, missing and unreachable quotes and skips checked items", async () => {
+    const fetched: string[] = [];
+    const fetcher = async (url: string) => {
+      fetched.push(url);
+      if (url.includes("down")) throw new Error("ECONNREFUSED");
+      return PAGE;
+    };
+    const evidence = [
+      makeItem("https://a.com/1", "chasing late invoices"),
+      makeItem("https://a.com/1", "Our accountant refuses to use any cloud software"),
+      makeItem("https://down.com/2", "chasing late invoices"),
+      { ...makeItem("https://b.com/3", "already checked"), verified: true, matchScore: 1 },
+    ];
+
+    const result = await verifyEvidence(evidence, fetcher);
+
+    expect(result.map((e) => e.verified)).toEqual([true, false, false, true]);
+    expect(result[1].matchScore).toBeLessThan(0.8);
+    expect(result[2].matchScore).toBeUndefined();
+    expect(fetched.sort()).toEqual(["https://a.com/1", "https://down.com/2"]);
+    expect(quoteVerificationStats(result)).toEqual({ checked: 4, verified: 2, unreachable: 1 });
+  });
+});
+
+describe("createHttpFetcher", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === "/missing") {
+        res.statusCode = 404;
+        res.end("not found");
+        return;
+      }
+      res.setHeader("content-type", "text/html");
+      res.end(PAGE);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("verifies quotes against a live page", async () => {
+    const [item] = await verifyEvidence([makeItem(`${baseUrl}/post`, "chasing late invoices")], createHttpFetcher());
+    expect(item.verified).toBe(true);
+  });
+
+  it("treats HTTP errors as unreachable", async () => {
+    const [item] = await verifyEvidence([makeItem(`${baseUrl}/missing`, "chasing late invoices")], createHttpFetcher());
+    expect(item.verified).toBe(false);
+    expect(item.matchScore).toBeUndefined();
+  });
+});